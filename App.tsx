@@ -1,70 +1,62 @@
 import React, { useState, Suspense, useRef, useEffect, useCallback, useMemo } from 'react';
-import { Canvas, useThree } from '@react-three/fiber';
-import { OrbitControls, GridHelper, Environment, ContactShadows, useCursor } from '@react-three/drei';
-import { Physics, useBox, usePlane } from '@react-three/cannon';
+import { Canvas, useThree, Camera } from '@react-three/fiber';
+import { OrbitControls, Environment, ContactShadows, useCursor } from '@react-three/drei';
 import * as THREE from 'three';
 import { v4 as uuidv4 } from 'uuid';
 import { 
   Undo2, Redo2, Trash2, Move, MousePointer2, PaintBucket, 
-  Menu, Loader2, Sparkles, RotateCw, Settings, 
-  Save, Upload, Download, Play, Square, Box, Cog
+  Menu, Sparkles, RotateCw, Settings, 
+  Save, Upload, Download, Play, Square, Box, Cog, AlertTriangle, BoxSelect, Rotate3d, History, FileOutput, FolderOpen, ClipboardList, BookOpen, Link2, Library, ImagePlus, Boxes
 } from 'lucide-react';
 
-import { PlacedBrick, ToolMode, BrickTypeDefinition } from './types';
-import { BRICK_CATALOG, COLORS, STUD_SIZE, BRICK_HEIGHT, PLATE_HEIGHT } from './constants';
+import { PlacedBrick, ToolMode, BrickTypeDefinition, BuildMetadata } from './types';
+import { BRICK_CATALOG, COLORS, DEFAULT_CLUTCH_STRENGTH, MAX_HISTORY_DEPTH } from './constants';
 import { BrickGeometry } from './components/BrickGeometry';
-import { generateBuildFromPrompt } from './services/geminiService';
-
-// --- Physics Components ---
-
-const PhysicsFloor = () => {
-  const [ref] = usePlane(() => ({ 
-    rotation: [-Math.PI / 2, 0, 0], 
-    position: [0, -0.01, 0], // Slightly below visual ground
-    type: 'Static',
-    material: { friction: 0.5, restitution: 0.1 }
-  }));
-  return (
-    <mesh ref={ref as any} visible={false}>
-      <planeGeometry args={[100, 100]} />
-    </mesh>
-  );
-};
-
-const PhysicsBrick: React.FC<{ brick: PlacedBrick }> = ({ brick }) => {
-  const def = BRICK_CATALOG.find(b => b.id === brick.typeId);
-  
-  // Calculate dimensions for collider
-  const w = def ? def.width * STUD_SIZE : 1;
-  const d = def ? def.depth * STUD_SIZE : 1;
-  const h = def ? def.height * BRICK_HEIGHT : 1;
-  
-  // Swap W/D if rotated
-  const isRotated = brick.rotation % 2 !== 0;
-  const finalW = isRotated ? d : w;
-  const finalD = isRotated ? w : d;
-
-  const [ref] = useBox(() => ({
-    mass: 1, // Dynamic body
-    position: [brick.position[0], brick.position[1] + h/2, brick.position[2]], // Physics body center is usually center of mass
-    rotation: [0, brick.rotation * Math.PI / 2, 0],
-    args: [finalW - 0.02, h, finalD - 0.02], // Slightly smaller to prevent jitter
-    material: { friction: 0.6, restitution: 0.2 }
-  }));
-
-  if (!def) return null;
-
-  return (
-    <group ref={ref as any}>
-        {/* We offset visual geometry because BrickGeometry origin is bottom-center, 
-            but Cannon body origin is center-center. 
-            So we move visual DOWN by h/2 inside the physics body group */}
-        <group position={[0, -h/2, 0]}>
-             <BrickGeometry type={def} color={brick.color} />
-        </group>
-    </group>
-  );
-};
+import { BrickBatches, groupBrickBatches, getPickedBrickId, getHitNormal } from './components/BrickBatches';
+import { PhysicsScene } from './components/PhysicsScene';
+import { SelectionPanel } from './components/SelectionPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { ProjectBrowser } from './components/ProjectBrowser';
+import { PartsListPanel } from './components/PartsListPanel';
+import { InstructionsPanel } from './components/InstructionsPanel';
+import { DriveTrainPanel } from './components/DriveTrainPanel';
+import { PartLibraryPanel } from './components/PartLibraryPanel';
+import { PartCatalog } from './components/PartCatalog';
+import { ColorPalette } from './components/ColorPalette';
+import { AiPreviewPanel } from './components/AiPreviewPanel';
+import { AiArchitectModal } from './components/AiArchitectModal';
+import { ImageImportDialog } from './components/ImageImportDialog';
+import { ModelImportDialog } from './components/ModelImportDialog';
+import { renderPartThumbnail } from './components/PartThumbnail';
+import { AI_TIMEOUT_MS, withDeadline, describeAiError } from './services/aiProvider';
+import { AI_PROVIDERS, getAiProvider, loadAiProviderId, saveAiProviderId } from './services/aiProviders';
+import { RepairResult, repairGeneratedBuild } from './services/buildRepair';
+import { AiChatTurn, applyBuildEdit, serializeSceneForAi } from './services/buildEdit';
+import { buildOccupancyIndex, canPlace, findOverlaps } from './services/occupancyGrid';
+import { buildConnectionGraph, findAttachments } from './services/connectionGraph';
+import { TechnicSnap, findTechnicSnap } from './services/connectionPoints';
+import { solveDriveTrain } from './services/driveTrain';
+import { solvePlacement } from './services/placement';
+import { getPartHeight } from './services/units';
+import { PartLibrary, installCatalog, loadInstalledPacks, saveInstalledPacks, findMissingPacks } from './services/partLibrary';
+import {
+  CatalogFilter, EMPTY_CATALOG_FILTER, isFilterActive, pushRecentPart, loadRecentParts, saveRecentParts, loadFavoriteParts, saveFavoriteParts
+} from './services/catalogSearch';
+import {
+  StudOffset, getSelectionBounds, moveBricks, rotateBricks, rotateInPlace, duplicateBricks, recolorBricks, deleteBricks, expandToConnected
+} from './services/groupTransforms';
+import {
+  BrickOp, createHistory, pushEntry, diffBricks, applyOps, revertOps, travelTo, canUndo, canRedo
+} from './services/history';
+import {
+  parseBuildDocument, serializeBuild, createMetadata, formatIssues, BuildDocumentError
+} from './services/buildDocument';
+import {
+  ProjectSummary, listProjects, loadProjectDocument, saveProject, renameProject, duplicateProject,
+  deleteProject, writeAutosave, readAutosave, captureThumbnail
+} from './services/projectStore';
+import { BuildStep, generateBuildSteps, getStepParts, buildBookletHtml, BookletPage } from './services/instructions';
+import { exportToLDraw, importFromLDraw, hasReportEntries, formatLDrawReport } from './services/ldraw';
 
 // --- Visual Components ---
 
@@ -85,27 +77,56 @@ const GhostBrick = ({
   type, 
   position, 
   rotation, 
-  color, 
-  visible 
+  colorId,
+  visible,
+  blocked = false,
+  unsupported = false
 }: { 
   type: BrickTypeDefinition, 
   position: [number, number, number], 
   rotation: number,
-  color: string, 
-  visible: boolean 
+  colorId: string,
+  visible: boolean,
+  blocked?: boolean,
+  unsupported?: boolean
 }) => {
   if (!visible) return null;
   return (
     <group position={new THREE.Vector3(...position)} rotation={[0, rotation * Math.PI / 2, 0]}>
-      <BrickGeometry type={type} color={color} opacity={0.6} transparent />
+      {/* Blocked spots are tinted red regardless of the selected color, spots with no studs to grab glow amber */}
+      <BrickGeometry
+        type={type}
+        colorId={blocked ? 'red' : colorId}
+        opacity={0.6}
+        transparent
+        highlight={!blocked && unsupported ? UNSUPPORTED_HIGHLIGHT : undefined}
+      />
     </group>
   );
 };
 
 // --- Main Scene ---
 
+const UNSUPPORTED_HIGHLIGHT = '#f59e0b';
+const SELECTED_HIGHLIGHT = '#2563eb';
+const STEP_HIGHLIGHT = '#16a34a';
+const PREVIEW_HIGHLIGHT = '#9333ea';
+
+// Minimum pointer travel (px) before a press counts as a drag instead of a click
+const DRAG_THRESHOLD = 4;
+
+// Hands the R3F camera out to DOM-level code such as box selection
+const CameraBridge = ({ cameraRef }: { cameraRef: React.MutableRefObject<Camera | null> }) => {
+  const { camera } = useThree();
+  cameraRef.current = camera;
+  return null;
+};
+
 const SceneContent = ({
   bricks,
+  catalog,
+  occupancy,
+  connections,
   tool,
   selectedTypeId,
   selectedColorId,
@@ -114,24 +135,47 @@ const SceneContent = ({
   rotation,
   onPlaceBrick,
   onBrickClick,
-  isSimulating
+  onHoverBrick,
+  selectedIds,
+  onSelectBrick,
+  instructionView,
+  previewBricks,
+  isSimulating,
+  clutchStrength,
+  connectSnap,
+  setConnectSnap
 }: any) => {
   const { camera, raycaster, mouse, scene } = useThree();
   const [hovered, setHover] = useState(false);
   useCursor(hovered && tool === 'view' ? false : hovered); 
 
+  // Bricks are drawn in instanced batches, rebuilt only when the build or its highlights change
+  const batches = useMemo(() => groupBrickBatches(bricks, catalog, (brick: PlacedBrick) => {
+    // Instructions show built steps only: the current step's parts lit, earlier ones faded
+    if (instructionView) {
+      if (!instructionView.visible.has(brick.id)) return null;
+      return instructionView.current.has(brick.id) ? { highlight: STEP_HIGHLIGHT } : { dimmed: true };
+    }
+    if (selectedIds.has(brick.id)) return { highlight: SELECTED_HIGHLIGHT };
+    if (connections.floating.has(brick.id)) return { highlight: UNSUPPORTED_HIGHLIGHT };
+    return {};
+  }), [bricks, catalog, instructionView, selectedIds, connections]);
+
+  // Studs and holes are hidden only under parts that are drawn, so steps not yet reached
+  // in the instructions leave the ones below them showing
+  const renderedOccupancy = useMemo(() => instructionView
+    ? buildOccupancyIndex(bricks.filter((b: PlacedBrick) => instructionView.visible.has(b.id)))
+    : occupancy, [bricks, instructionView, occupancy]);
+
+  // Generated parts waiting to be accepted, tinted and out of reach of the tools
+  const preview = useMemo(() => previewBricks && {
+    batches: groupBrickBatches(previewBricks, catalog, () => ({ highlight: PREVIEW_HIGHLIGHT })),
+    occupancy: buildOccupancyIndex(previewBricks),
+  }, [previewBricks, catalog]);
+
   // --- Physics Mode ---
   if (isSimulating) {
-    return (
-      <Physics gravity={[0, -9.81, 0]} iterations={20} tolerance={0.001}>
-        <PhysicsFloor />
-        {bricks.map((brick: PlacedBrick) => (
-          <PhysicsBrick key={`sim-${brick.id}`} brick={brick} />
-        ))}
-        {/* Helper to show where floor is */}
-        <gridHelper args={[50, 50, 0x444444, 0x111111]} position={[0, 0, 0]} />
-      </Physics>
-    );
+    return <PhysicsScene bricks={bricks} clutchStrength={clutchStrength} />;
   }
 
   // --- Edit Mode ---
@@ -141,90 +185,62 @@ const SceneContent = ({
     if (isSimulating) return;
 
     // Determine if we are interacting with a brick
-    // We traverse up the tree to find the Group that holds the brick data
-    let object = e.object;
-    let isBrick = false;
-    let brickId = null;
-
-    while (object) {
-      if (object.userData && object.userData.isBrick) {
-        isBrick = true;
-        brickId = object.userData.brickId;
-        break;
-      }
-      object = object.parent;
-    }
+    const brickId = getPickedBrickId(e);
+    onHoverBrick(brickId);
 
     const point = e.point;
-    const normal = e.face.normal;
-
-    // Use a small offset along the normal to ensure we pick the grid cell 
-    // adjacent to the face we hit (e.g. on top, or to the side).
-    const epsilon = 0.01; 
-    const targetPos = point.clone().add(normal.clone().multiplyScalar(epsilon));
-
-    // Snap to grid
-    // X and Z are standard 1-stud units
-    const x = Math.round(targetPos.x);
-    const z = Math.round(targetPos.z);
-    
-    // Y is height. Snap to PLATE_HEIGHT (0.4) to allow fine stacking
-    let y = Math.round(targetPos.y / PLATE_HEIGHT) * PLATE_HEIGHT;
-    
-    // Ensure we don't go below ground
-    if (y < 0) y = 0;
-    
-    // Cleanup floating point artifacts
-    y = parseFloat(y.toFixed(2));
-
-    // Handle Brick Centering
-    // Bricks with even width/depth need to be offset by 0.5 to align with grid lines
-    // Bricks with odd width/depth align with grid centers (integers)
-    const currentBrick = BRICK_CATALOG.find(b => b.id === selectedTypeId)!;
-    const isRotated = rotation % 2 !== 0;
-    const effectiveWidth = isRotated ? currentBrick.depth : currentBrick.width;
-    const effectiveDepth = isRotated ? currentBrick.width : currentBrick.depth;
-    
-    let finalX = x;
-    let finalZ = z;
-
-    if (effectiveWidth % 2 === 0) finalX += 0.5;
-    if (effectiveDepth % 2 === 0) finalZ += 0.5;
-
-    setHoverPos([finalX, y, finalZ]);
+
+    // Connect mode only snaps onto the holes and inserts of the part under the cursor
+    if (tool === 'connect') {
+      setConnectSnap(brickId
+        ? findTechnicSnap(bricks, connections.technicIndex, occupancy, selectedTypeId, rotation, brickId, [point.x, point.y, point.z])
+        : null);
+      setHover(true);
+      return;
+    }
+
+    // Solved in whole studs and plate layers against the face under the cursor
+    const normal = getHitNormal(e);
+    const target = brickId ? bricks.find((b: PlacedBrick) => b.id === brickId) ?? null : null;
+    const position = solvePlacement(selectedTypeId, rotation, { point: [point.x, point.y, point.z], normal: [normal.x, normal.y, normal.z], target });
+    if (!position) {
+      setHover(false);
+      return;
+    }
+
+    setHoverPos(position);
     setHover(true);
   };
 
   const handlePointerOut = () => {
     setHover(false);
+    onHoverBrick(null);
   };
 
   const handleClick = (e: any) => {
     e.stopPropagation();
-    if (isSimulating) return;
+    if (isSimulating || instructionView || previewBricks) return;
 
-    if (tool === 'place' && hovered) {
+    if ((tool === 'place' && hovered) || (tool === 'connect' && connectSnap)) {
       onPlaceBrick();
+    } else if (tool === 'select') {
+       // Ignore the click that ends a box-select drag
+       if (e.delta > DRAG_THRESHOLD) return;
+       onSelectBrick(getPickedBrickId(e), e.shiftKey);
     } else {
        // Check for click on existing brick for other tools
-       let object = e.object;
-       let brickId = null;
-       while (object) {
-         if (object.userData && object.userData.isBrick) {
-           brickId = object.userData.brickId;
-           break;
-         }
-         object = object.parent;
-       }
+       const brickId = getPickedBrickId(e);
 
-       if (brickId && (tool === 'delete' || tool === 'paint')) {
-          onBrickClick(brickId);
+       if (brickId && (tool === 'delete' || tool === 'paint' || tool === 'rotate')) {
+          onBrickClick(brickId, e.shiftKey);
        }
     }
   };
 
   const selectedBrickDef = BRICK_CATALOG.find(b => b.id === selectedTypeId);
-  const colorHex = COLORS.find(c => c.id === selectedColorId)?.hex || '#ffffff';
+  const ghostPlacement = { typeId: selectedTypeId, position: hoverPos, rotation };
+  const isPlacementBlocked = !canPlace(occupancy, ghostPlacement);
+  const isPlacementUnsupported = findAttachments(connections, ghostPlacement).length === 0;
 
   return (
     <>
@@ -244,33 +260,27 @@ const SceneContent = ({
       </mesh>
 
       {/* Static Bricks (Edit Mode) */}
-      {bricks.map((brick: PlacedBrick) => {
-        const def = BRICK_CATALOG.find(b => b.id === brick.typeId);
-        if (!def) return null;
-        return (
-          <group 
-            key={brick.id} 
-            position={new THREE.Vector3(...brick.position)} 
-            rotation={[0, brick.rotation * Math.PI / 2, 0]}
-            onClick={handleClick}
-            onPointerMove={handlePointerMove} 
-            userData={{ isBrick: true, brickId: brick.id }} // Mark this group as a brick
-          >
-             {/* Wrap geometry to ensure events bubble to this group */}
-             <group>
-                <BrickGeometry type={def} color={brick.color} />
-             </group>
-          </group>
-        );
-      })}
+      <BrickBatches batches={batches} occupancy={renderedOccupancy} onClick={handleClick} onPointerMove={handlePointerMove} />
+      {preview && <BrickBatches batches={preview.batches} occupancy={preview.occupancy} />}
 
       {/* Ghost */}
-      {tool === 'place' && selectedBrickDef && (
+      {tool === 'place' && selectedBrickDef && !instructionView && !previewBricks && (
         <GhostBrick 
           type={selectedBrickDef} 
           position={hoverPos} 
           rotation={rotation}
-          color={colorHex}
+          colorId={selectedColorId}
+          visible={hovered}
+          blocked={isPlacementBlocked}
+          unsupported={isPlacementUnsupported}
+        />
+      )}
+      {tool === 'connect' && selectedBrickDef && connectSnap && !instructionView && !previewBricks && (
+        <GhostBrick
+          type={selectedBrickDef}
+          position={connectSnap.position}
+          rotation={connectSnap.rotation}
+          colorId={selectedColorId}
           visible={hovered}
         />
       )}
@@ -282,161 +292,766 @@ const SceneContent = ({
 
 export default function App() {
   const [bricks, setBricks] = useState<PlacedBrick[]>([]);
+  // Installed part packs, layered over the built-in catalog before the first render
+  const [packs, setPacks] = useState<PartLibrary[]>(() => {
+    const installed = loadInstalledPacks();
+    installCatalog(installed);
+    return installed;
+  });
   const [selectedTypeId, setSelectedTypeId] = useState<string>(BRICK_CATALOG[0].id);
   const [selectedColorId, setSelectedColorId] = useState<string>('red');
   const [tool, setTool] = useState<ToolMode>('place');
   const [rotation, setRotation] = useState(0);
   const [hoverPos, setHoverPos] = useState<[number, number, number]>([0,0,0]);
+  const [hoveredBrickId, setHoveredBrickId] = useState<string | null>(null);
+  const [connectSnap, setConnectSnap] = useState<TechnicSnap | null>(null);
   const [isSimulating, setIsSimulating] = useState(false);
-  const [filterCategory, setFilterCategory] = useState<'all' | 'basic' | 'technic'>('all');
+  const [clutchStrength, setClutchStrength] = useState(DEFAULT_CLUTCH_STRENGTH);
+  const [catalogFilter, setCatalogFilter] = useState<CatalogFilter>(EMPTY_CATALOG_FILTER);
+  const [recentParts, setRecentParts] = useState<string[]>(loadRecentParts);
+  const [favoriteParts, setFavoriteParts] = useState<string[]>(loadFavoriteParts);
+
+  // Selection
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [boxSelect, setBoxSelect] = useState<{ start: [number, number], end: [number, number] } | null>(null);
+  const cameraRef = useRef<Camera | null>(null);
+  const canvasWrapperRef = useRef<HTMLDivElement>(null);
   
   // AI
   const [isAiLoading, setIsAiLoading] = useState(false);
   const [aiPrompt, setAiPrompt] = useState('');
   const [showAiModal, setShowAiModal] = useState(false);
+  const [aiProviderId, setAiProviderId] = useState(loadAiProviderId);
+  const [aiError, setAiError] = useState<string | null>(null);
+  // Aborts the request in flight when the user cancels
+  const aiAbortRef = useRef<AbortController | null>(null);
+  // Repaired AI output shown in the scene until accepted or discarded
+  const [aiPreview, setAiPreview] = useState<(RepairResult & { prompt: string }) | null>(null);
+  // Conversation for editing the current build; assistant turns point at their history entry
+  const [aiChat, setAiChat] = useState<AiChatTurn[]>([]);
 
   // Undo/Redo
-  const [history, setHistory] = useState<PlacedBrick[][]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  const [history, setHistory] = useState(createHistory);
+  const [showHistory, setShowHistory] = useState(false);
+  // The scene as of the last render, for handlers that pick up again after an await
+  const latestSceneRef = useRef({ bricks, history });
+  latestSceneRef.current = { bricks, history };
+
+  // Name, author and timestamps written into saved documents
+  const [buildMeta, setBuildMeta] = useState<BuildMetadata>(() => createMetadata('Untitled Build'));
+
+  // Saved projects (IndexedDB)
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [showProjects, setShowProjects] = useState(false);
+  const [showPartsList, setShowPartsList] = useState(false);
+  const [showPartLibrary, setShowPartLibrary] = useState(false);
+  const [showImageImport, setShowImageImport] = useState(false);
+  const [showModelImport, setShowModelImport] = useState(false);
+
+  // Building instructions
+  const [instructionSteps, setInstructionSteps] = useState<BuildStep[] | null>(null);
+  const [instructionStep, setInstructionStep] = useState(0);
+  const [isExportingBooklet, setIsExportingBooklet] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sessionRestoredRef = useRef(false);
 
   // File Input
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const addToHistory = (newBricks: PlacedBrick[]) => {
-     const newHistory = history.slice(0, historyIndex + 1);
-     newHistory.push(newBricks);
-     setHistory(newHistory);
-     setHistoryIndex(newHistory.length - 1);
-     setBricks(newBricks);
-  };
-
-  const undo = () => {
-    if (historyIndex > 0) {
-      setHistoryIndex(historyIndex - 1);
-      setBricks(history[historyIndex - 1]);
-    } else if (historyIndex === 0) {
-       setHistoryIndex(-1);
-       setBricks([]);
-    }
+  // Spatial index of occupied stud cells, rebuilt whenever the scene changes
+  const occupancy = useMemo(() => buildOccupancyIndex(bricks), [bricks, packs]);
+  // Stud/tube connections; bricks without a path to the ground are flagged as floating
+  const connections = useMemo(() => buildConnectionGraph(bricks), [bricks, packs]);
+  // Motor-driven rotors with their solved speeds, for the inspector and the simulation
+  const driveTrain = useMemo(() => solveDriveTrain(bricks, connections.technicIndex), [bricks, connections]);
+
+  const warnOnOverlaps = (newBricks: PlacedBrick[], source: string) => {
+    const overlaps = findOverlaps(newBricks);
+    if (overlaps.length > 0) showNotice(`${source} contains ${overlaps.length} overlapping brick${overlaps.length === 1 ? '' : 's'}`);
   };
 
-  const redo = () => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(historyIndex + 1);
-      setBricks(history[historyIndex + 1]);
-    }
+  // Records a batch of ops as one labeled, undoable entry
+  const commitOps = (ops: BrickOp[], label: string) => {
+    if (ops.length === 0) return;
+    setHistory(prev => pushEntry(prev, label, ops, MAX_HISTORY_DEPTH));
+    setBricks(prev => applyOps(prev, ops));
   };
 
+  // Whole-scene edits are diffed against the current scene so only the changes are stored
+  const addToHistory = (newBricks: PlacedBrick[], label: string) => {
+    const ops = diffBricks(bricks, newBricks);
+    if (ops.length === 0) return;
+    setHistory(pushEntry(history, label, ops, MAX_HISTORY_DEPTH));
+    setBricks(newBricks);
+  };
+
+  const jumpToHistory = (index: number) => {
+    const result = travelTo(history, bricks, index);
+    setHistory(result.history);
+    setBricks(result.bricks);
+  };
+
+  const undo = () => jumpToHistory(history.index - 1);
+
+  const redo = () => jumpToHistory(history.index + 1);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y also redoes); off while instructions are shown, like the
+  // rest of the editing tools
+  useEffect(() => {
+    if (isSimulating || instructionSteps) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   const handlePlaceBrick = () => {
-    const colorHex = COLORS.find(c => c.id === selectedColorId)?.hex || '#fff';
+    // Connect mode places wherever the snap seated the part, turned as the snap needs
+    const placement = tool === 'connect' ? connectSnap : { position: hoverPos, rotation };
+    if (!placement || !canPlace(occupancy, { typeId: selectedTypeId, ...placement })) return;
     const newBrick: PlacedBrick = {
       id: uuidv4(),
       typeId: selectedTypeId,
-      position: hoverPos,
-      rotation: rotation,
-      color: colorHex
+      position: placement.position,
+      rotation: placement.rotation,
+      colorId: selectedColorId
     };
-    addToHistory([...bricks, newBrick]);
+    const name = BRICK_CATALOG.find(b => b.id === selectedTypeId)?.name || 'Brick';
+    commitOps([{ type: 'add', bricks: [newBrick] }], `${tool === 'connect' ? 'Connect' : 'Place'} ${name}`);
+    if (tool === 'connect') setConnectSnap(null);
+    if (recentParts[0] !== selectedTypeId) setRecentParts(pushRecentPart(recentParts, selectedTypeId));
   };
 
-  const handleBrickClick = (brickId: string) => {
-    if (tool === 'delete') {
-      const newBricks = bricks.filter(b => b.id !== brickId);
-      addToHistory(newBricks);
+  const handleBrickClick = (brickId: string, shiftKey = false) => {
+    if (tool === 'rotate') {
+      rotatePlacedBrick(brickId, shiftKey ? -1 : 1);
+    } else if (tool === 'delete') {
+      const removed = bricks.filter(b => b.id === brickId);
+      commitOps([{ type: 'remove', bricks: removed }], 'Delete brick');
     } else if (tool === 'paint') {
-      const colorHex = COLORS.find(c => c.id === selectedColorId)?.hex || '#fff';
-      const newBricks = bricks.map(b => b.id === brickId ? { ...b, color: colorHex } : b);
-      addToHistory(newBricks);
+      const brick = bricks.find(b => b.id === brickId);
+      const color = COLORS.find(c => c.id === selectedColorId);
+      if (!brick || !color || brick.colorId === color.id) return;
+      commitOps([{ type: 'recolor', changes: [{ id: brickId, from: brick.colorId, to: color.id }] }], `Paint ${color.name}`);
     }
   };
 
-  const handleAiBuild = async () => {
-    if (!aiPrompt) return;
+  // --- Selection ---
+
+  // Drop ids that no longer exist after undo, delete or load
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const alive = new Set(bricks.map(b => b.id));
+      const next = new Set([...prev].filter(id => alive.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [bricks]);
+
+  const handleSelectBrick = (brickId: string | null, additive: boolean) => {
+    if (!brickId) {
+      if (!additive) setSelectedIds(new Set());
+      return;
+    }
+    setSelectedIds(prev => {
+      if (!additive) return new Set([brickId]);
+      const next = new Set(prev);
+      if (next.has(brickId)) next.delete(brickId);
+      else next.add(brickId);
+      return next;
+    });
+  };
+
+  // Selects parts picked from a panel, e.g. an axle in the drive train inspector
+  const selectBricks = (brickIds: string[]) => {
+    setTool('select');
+    setSelectedIds(new Set(brickIds));
+  };
+
+  const setMotorRpm = (motorId: string, rpm: number) => {
+    addToHistory(bricks.map(b => b.id === motorId ? { ...b, rpm } : b), 'Set motor speed');
+  };
+
+  const handleBoxSelectStart = (e: React.PointerEvent) => {
+    // Only drags that start on the 3D view itself, not on overlay panels
+    if (tool !== 'select' || isSimulating || e.button !== 0 || !(e.target instanceof HTMLCanvasElement)) return;
+    setBoxSelect({ start: [e.clientX, e.clientY], end: [e.clientX, e.clientY] });
+  };
+
+  const handleBoxSelectMove = (e: React.PointerEvent) => {
+    if (!boxSelect) return;
+    setBoxSelect({ ...boxSelect, end: [e.clientX, e.clientY] });
+  };
+
+  // Selects every brick whose center projects inside the dragged screen rectangle
+  const handleBoxSelectEnd = (e: React.PointerEvent) => {
+    if (!boxSelect) return;
+    setBoxSelect(null);
+    const [x0, y0] = boxSelect.start;
+    const [x1, y1] = [e.clientX, e.clientY];
+    const camera = cameraRef.current;
+    const rect = canvasWrapperRef.current?.getBoundingClientRect();
+    if (!camera || !rect || Math.hypot(x1 - x0, y1 - y0) <= DRAG_THRESHOLD) return;
+
+    const [minX, maxX] = [Math.min(x0, x1), Math.max(x0, x1)];
+    const [minY, maxY] = [Math.min(y0, y1), Math.max(y0, y1)];
+    const inside = bricks.filter(brick => {
+      const def = BRICK_CATALOG.find(b => b.id === brick.typeId);
+      const center = new THREE.Vector3(brick.position[0], brick.position[1] + (def ? getPartHeight(def) / 2 : 0), brick.position[2]);
+      center.project(camera);
+      if (center.z > 1) return false; // Behind the camera
+      const sx = rect.left + (center.x + 1) / 2 * rect.width;
+      const sy = rect.top + (1 - center.y) / 2 * rect.height;
+      return sx >= minX && sx <= maxX && sy >= minY && sy <= maxY;
+    });
+
+    setSelectedIds(prev => {
+      const next = e.shiftKey ? new Set(prev) : new Set<string>();
+      inside.forEach(b => next.add(b.id));
+      return next;
+    });
+  };
+
+  // Group edits each commit as a single history entry; null means the move was blocked
+  const applyGroupEdit = (newBricks: PlacedBrick[] | null, label: string) => {
+    if (newBricks) addToHistory(newBricks, label);
+  };
+
+  const selectionLabel = () => `${selectedIds.size} brick${selectedIds.size === 1 ? '' : 's'}`;
+
+  const moveSelection = (offset: StudOffset) =>
+    applyGroupEdit(moveBricks(bricks, selectedIds, offset), `Move ${selectionLabel()}`);
+
+  const rotateSelection = (steps: number) =>
+    applyGroupEdit(rotateBricks(bricks, selectedIds, steps), `Rotate ${selectionLabel()}`);
+
+  const duplicateSelection = () => {
+    const copies = duplicateBricks(bricks, selectedIds);
+    if (!copies) return;
+    commitOps([{ type: 'add', bricks: copies }], `Duplicate ${selectionLabel()}`);
+    setSelectedIds(new Set(copies.map(b => b.id)));
+  };
+
+  const deleteSelection = () => {
+    addToHistory(deleteBricks(bricks, selectedIds), `Delete ${selectionLabel()}`);
+    setSelectedIds(new Set());
+  };
+
+  const recolorSelection = () => {
+    addToHistory(recolorBricks(bricks, selectedIds, selectedColorId), `Recolor ${selectionLabel()}`);
+  };
+
+  const selectConnected = () => setSelectedIds(expandToConnected(connections, selectedIds));
+
+  useEffect(() => {
+    if (selectedIds.size === 0 || isSimulating || instructionSteps) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const moves: Record<string, StudOffset> = {
+        ArrowLeft: [-1, 0, 0], ArrowRight: [1, 0, 0],
+        ArrowUp: [0, 0, -1], ArrowDown: [0, 0, 1],
+        PageUp: [0, 1, 0], PageDown: [0, -1, 0],
+      };
+      if (moves[e.key]) {
+        e.preventDefault();
+        moveSelection(moves[e.key]);
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        deleteSelection();
+      } else if (e.key === 'Escape') {
+        setSelectedIds(new Set());
+      } else if (e.key.toLowerCase() === 'd' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        duplicateSelection();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Runs one provider call; failures are shown in the modal and come back as null
+  const runAiRequest = async <T,>(request: (signal: AbortSignal) => Promise<T>): Promise<T | null> => {
+    const controller = new AbortController();
+    aiAbortRef.current = controller;
+    setAiError(null);
     setIsAiLoading(true);
-    const generatedBricks = await generateBuildFromPrompt(aiPrompt);
-    setIsAiLoading(false);
+    try {
+      return await withDeadline(controller.signal, AI_TIMEOUT_MS, request);
+    } catch (err) {
+      console.warn('AI request failed', err);
+      setAiError(describeAiError(err));
+      return null;
+    } finally {
+      aiAbortRef.current = null;
+      setIsAiLoading(false);
+    }
+  };
+
+  const cancelAiRequest = () => aiAbortRef.current?.abort();
+
+  const closeAiModal = () => {
+    cancelAiRequest();
+    setAiError(null);
     setShowAiModal(false);
-    
-    if (generatedBricks) {
-      addToHistory([...bricks, ...generatedBricks]);
-    } else {
-      alert("AI could not generate a build. Please try again or check API Key.");
+  };
+
+  const changeAiProvider = (id: string) => {
+    setAiProviderId(id);
+    saveAiProviderId(id);
+    setAiError(null);
+  };
+
+  const handleAiBuild = async () => {
+    const prompt = aiPrompt.trim();
+    if (!prompt) return;
+    const provider = getAiProvider(aiProviderId);
+    const generatedParts = await runAiRequest(signal => provider.generateBuild(prompt, signal));
+    if (!generatedParts) return;
+    setShowAiModal(false);
+    setAiPreview({ prompt, ...repairGeneratedBuild(generatedParts, bricks) });
+  };
+
+  const acceptAiPreview = () => {
+    if (!aiPreview) return;
+    // The repair ran against the scene as it was when the build was generated
+    warnOnOverlaps([...bricks, ...aiPreview.bricks], 'AI build');
+    commitOps([{ type: 'add', bricks: aiPreview.bricks }], `AI: ${aiPreview.prompt}`);
+    setAiPreview(null);
+  };
+
+  const handleAiEdit = async () => {
+    const prompt = aiPrompt.trim();
+    const provider = getAiProvider(aiProviderId);
+    if (!prompt || !provider.editBuild) return;
+    const snapshot = serializeSceneForAi(bricks);
+    const edit = await runAiRequest(signal => provider.editBuild!(prompt, snapshot.text, aiChat, signal));
+    if (!edit) return;
+    // Parts may have been changed while the request was out, so the edit goes onto the
+    // scene as it is now; refs to parts removed since are skipped
+    const latest = latestSceneRef.current;
+    const { ops, diagnostics } = applyBuildEdit(edit, latest.bricks, snapshot);
+    const reply: AiChatTurn = {
+      role: 'assistant',
+      text: edit.reply || (ops.length > 0 ? 'Done.' : 'No changes made.'),
+      diagnostics,
+      // commitOps gives the change the next history id
+      entryId: ops.length > 0 ? latest.history.nextId : undefined,
+    };
+    commitOps(ops, `AI: ${prompt}`);
+    setAiChat(chat => [...chat, { role: 'user', text: prompt }, reply]);
+    setAiPrompt('');
+  };
+
+  const getAppliedEntryIndex = (entryId: number) =>
+    history.entries.slice(0, history.index).findIndex(e => e.id === entryId);
+
+  // Applied, and not since reverted by an entry of its own that is still applied
+  const isAiTurnApplied = (turn: AiChatTurn) =>
+    turn.entryId !== undefined && getAppliedEntryIndex(turn.entryId) >= 0 &&
+    (turn.revertEntryId === undefined || getAppliedEntryIndex(turn.revertEntryId) < 0);
+
+  // Takes back one AI change. The latest entry is simply undone; an older one is reverted
+  // on top of later edits as a new entry, so nothing done since is lost.
+  const undoAiTurn = (turn: AiChatTurn) => {
+    if (!isAiTurnApplied(turn)) return;
+    const index = getAppliedEntryIndex(turn.entryId!);
+    if (index === history.index - 1) {
+      undo();
+      return;
     }
+    const entry = history.entries[index];
+    // Parts the change removed come back only if nothing with their id has been added since
+    const seen = new Set<string>();
+    const reverted = revertOps(bricks, entry.ops).filter(b => !seen.has(b.id) && !!seen.add(b.id));
+    const ops = diffBricks(bricks, reverted);
+    if (ops.length === 0) return;
+    warnOnOverlaps(reverted, 'Undoing the AI change');
+    const revertEntryId = history.nextId;
+    commitOps(ops, `Undo ${entry.label}`);
+    setAiChat(chat => chat.map(t => t === turn ? { ...t, revertEntryId } : t));
+  };
+
+  const rotateBrick = (steps = 1) => {
+    setRotation((prev) => (((prev + steps) % 4) + 4) % 4);
   };
 
-  const rotateBrick = () => {
-    setRotation((prev) => (prev + 1) % 4);
+  // Refused (no history entry) when the turned footprint would hit another brick
+  const rotatePlacedBrick = (brickId: string, steps: number) => {
+    const newBricks = rotateInPlace(bricks, brickId, steps);
+    if (newBricks) addToHistory(newBricks, 'Rotate brick');
   };
 
+  // R / Shift+R: turn the next brick in place mode, the hovered brick in rotate mode
+  useEffect(() => {
+    if (isSimulating || instructionSteps || (tool !== 'place' && tool !== 'rotate')) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key.toLowerCase() !== 'r' || e.ctrlKey || e.metaKey || e.altKey) return;
+      const steps = e.shiftKey ? -1 : 1;
+      if (tool === 'place') rotateBrick(steps);
+      else if (hoveredBrickId) rotatePlacedBrick(hoveredBrickId, steps);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   const clearScene = () => {
       if(confirm("Clear all bricks?")) {
-          addToHistory([]);
+          addToHistory([], 'Clear scene');
       }
   };
 
   // --- Save / Load / Export ---
 
-  const saveToLocalStorage = () => {
-    localStorage.setItem('kensenichLegoSave', JSON.stringify(bricks));
-    alert('Build saved to local storage!');
+  // Parses, migrates and validates a saved document; bricks that fail validation are
+  // listed and only loaded after the user confirms dropping them
+  const loadBuildText = (text: string, label: string): boolean => {
+    let parsed;
+    try {
+      parsed = parseBuildDocument(text);
+    } catch (err) {
+      alert(err instanceof BuildDocumentError ? err.message : "Invalid file format");
+      return false;
+    }
+
+    const { document: doc, validBricks, issues } = parsed;
+    // Parts from packs that are not installed fail validation below; say which packs they need
+    const missingPacks = findMissingPacks(doc.metadata.packs ?? [], packs);
+    if (missingPacks.length > 0) {
+      alert(`${label} uses parts from packs that are not installed:\n${missingPacks.map(p => `• ${p.name} (${p.id} v${p.version})`).join('\n')}`);
+    }
+    if (issues.length > 0) {
+      const dropped = doc.bricks.length - validBricks.length;
+      const proceed = confirm(
+        `${label}: ${issues.length} problem${issues.length === 1 ? '' : 's'} found.\n\n${formatIssues(issues)}\n\n` +
+        `Load the ${validBricks.length} valid bricks and skip ${dropped}?`
+      );
+      if (!proceed) return false;
+    }
+
+    setBuildMeta(doc.metadata);
+    addToHistory(validBricks, label);
+    warnOnOverlaps(validBricks, label);
+    return true;
+  };
+
+  // --- Part Library ---
+
+  // Rebuilds the active catalog from the new pack list and remembers it for next time
+  const updatePacks = (next: PartLibrary[]) => {
+    installCatalog(next);
+    if (!saveInstalledPacks(next)) showNotice('Browser storage is full: part packs will be lost on reload');
+    setPacks(next);
+    if (!BRICK_CATALOG.some(b => b.id === selectedTypeId)) setSelectedTypeId(BRICK_CATALOG[0].id);
+    if (!COLORS.some(c => c.id === selectedColorId)) setSelectedColorId(COLORS[0].id);
+  };
+
+  // --- Instructions ---
+
+  const instructionView = useMemo(() => {
+    if (!instructionSteps) return null;
+    const visible = new Set<string>();
+    instructionSteps.slice(0, instructionStep + 1).forEach(step => step.brickIds.forEach(id => visible.add(id)));
+    return { visible, current: new Set(instructionSteps[instructionStep]?.brickIds ?? []) };
+  }, [instructionSteps, instructionStep]);
+
+  const stepParts = useMemo(
+    () => instructionSteps ? getStepParts(bricks, instructionSteps[instructionStep]) : [],
+    [bricks, instructionSteps, instructionStep]
+  );
+
+  const startInstructions = () => {
+    if (bricks.length === 0) {
+      showNotice('Nothing to build yet');
+      return;
+    }
+    setSelectedIds(new Set());
+    setInstructionSteps(generateBuildSteps(bricks));
+    setInstructionStep(0);
   };
 
-  const loadFromLocalStorage = () => {
-    const saved = localStorage.getItem('kensenichLegoSave');
-    if (saved) {
-      try {
-        const loadedBricks = JSON.parse(saved);
-        addToHistory(loadedBricks);
-      } catch (e) {
-        console.error("Failed to load", e);
+  const exitInstructions = () => setInstructionSteps(null);
+
+  // Steps are computed for one version of the scene; any edit (e.g. undo) ends the walkthrough
+  useEffect(() => exitInstructions(), [bricks]);
+
+  const nextFrame = () => new Promise(resolve => requestAnimationFrame(resolve));
+
+  // Steps through the sequence, captures the canvas at each step and writes an HTML booklet
+  const exportBooklet = async () => {
+    if (!instructionSteps) return;
+    setIsExportingBooklet(true);
+    const returnTo = instructionStep;
+    const pages: BookletPage[] = [];
+    try {
+      for (let i = 0; i < instructionSteps.length; i++) {
+        setInstructionStep(i);
+        await nextFrame();
+        await nextFrame();
+        const parts = getStepParts(bricks, instructionSteps[i]);
+        pages.push({
+          image: captureThumbnail(canvasRef.current, 1200, 900),
+          parts: await Promise.all(parts.map(async part => {
+            const def = BRICK_CATALOG.find(b => b.id === part.typeId);
+            return { ...part, thumbnail: def ? await renderPartThumbnail(def, part.colorId) : null };
+          })),
+        });
       }
+      downloadFile(buildBookletHtml(buildMeta.name, pages), 'kensenich_instructions.html', 'text/html');
+    } catch (err) {
+      console.error("Booklet export failed", err);
+      showNotice('Booklet export failed');
+    } finally {
+      setInstructionStep(returnTo);
+      setIsExportingBooklet(false);
     }
   };
 
-  const exportToFile = () => {
-    const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(bricks));
+  useEffect(() => {
+    if (!instructionSteps || isExportingBooklet) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setInstructionStep(i => Math.min(instructionSteps.length - 1, i + 1));
+      else if (e.key === 'ArrowLeft') setInstructionStep(i => Math.max(0, i - 1));
+      else if (e.key === 'Escape') exitInstructions();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // --- Projects ---
+
+  const showNotice = (message: string) => {
+    setNotice(message);
+    setTimeout(() => setNotice(current => current === message ? null : current), 2500);
+  };
+
+  const refreshProjects = () => listProjects().then(setProjects).catch(err => console.error("Failed to list projects", err));
+
+  const saveCurrentProject = async (asNew = false) => {
+    try {
+      const summary = await saveProject(asNew ? null : currentProjectId, {
+        name: buildMeta.name,
+        document: serializeBuild(bricks, buildMeta),
+        brickCount: bricks.length,
+        thumbnail: captureThumbnail(canvasRef.current),
+      });
+      setCurrentProjectId(summary.id);
+      showNotice(`Saved "${summary.name}"`);
+      refreshProjects();
+    } catch (err) {
+      console.error("Failed to save project", err);
+      showNotice('Save failed');
+    }
+  };
+
+  const openProject = async (id: string) => {
+    const project = projects.find(p => p.id === id);
+    try {
+      const text = await loadProjectDocument(id);
+      if (text === null) {
+        showNotice('Project not found');
+        return;
+      }
+      if (loadBuildText(text, `Open ${project?.name || 'build'}`)) {
+        setCurrentProjectId(id);
+        setShowProjects(false);
+      }
+    } catch (err) {
+      console.error("Failed to open project", err);
+      showNotice('Open failed');
+    }
+  };
+
+  const renameProjectById = async (id: string, name: string) => {
+    try {
+      await renameProject(id, name);
+      if (id === currentProjectId) setBuildMeta(meta => ({ ...meta, name }));
+    } catch (err) {
+      console.error("Failed to rename project", err);
+      showNotice('Rename failed');
+    }
+    refreshProjects();
+  };
+
+  const duplicateProjectById = async (id: string) => {
+    try {
+      await duplicateProject(id);
+    } catch (err) {
+      console.error("Failed to duplicate project", err);
+      showNotice('Duplicate failed');
+    }
+    refreshProjects();
+  };
+
+  const deleteProjectById = async (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!confirm(`Delete "${project?.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(id);
+      if (id === currentProjectId) setCurrentProjectId(null);
+    } catch (err) {
+      console.error("Failed to delete project", err);
+      showNotice('Delete failed');
+    }
+    refreshProjects();
+  };
+
+  // Restore the last session on startup. Builds from the old single localStorage
+  // quick-save slot are moved into the project store once.
+  useEffect(() => {
+    const restore = async () => {
+      const legacy = localStorage.getItem('kensenichLegoSave');
+      if (legacy) {
+        // Removed up front so a second mount (StrictMode) cannot migrate it twice
+        localStorage.removeItem('kensenichLegoSave');
+        try {
+          const { validBricks } = parseBuildDocument(legacy);
+          await saveProject(null, { name: 'Quick Save', document: legacy, brickCount: validBricks.length, thumbnail: null });
+        } catch (err) {
+          console.error("Failed to migrate quick save", err);
+          localStorage.setItem('kensenichLegoSave', legacy);
+        }
+      }
+
+      const autosave = await readAutosave();
+      if (autosave) {
+        const { document: doc, validBricks } = parseBuildDocument(autosave.document);
+        setBricks(validBricks);
+        setBuildMeta(doc.metadata);
+        setCurrentProjectId(autosave.projectId);
+      }
+    };
+    restore()
+      .catch(err => console.error("Failed to restore session", err))
+      .finally(() => {
+        sessionRestoredRef.current = true;
+        refreshProjects();
+      });
+  }, []);
+
+  // Autosave shortly after each change so a crash or reload loses almost nothing
+  useEffect(() => {
+    if (!sessionRestoredRef.current) return;
+    const timer = setTimeout(() => {
+      writeAutosave({
+        projectId: currentProjectId,
+        document: serializeBuild(bricks, buildMeta),
+        savedAt: new Date().toISOString(),
+      }).catch(err => console.error("Autosave failed", err));
+    }, 1500);
+    return () => clearTimeout(timer);
+  }, [bricks, buildMeta, currentProjectId]);
+
+  const downloadFile = (content: string, fileName: string, mimeType: string) => {
+    const dataStr = `data:${mimeType};charset=utf-8,` + encodeURIComponent(content);
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", "kensenich_lego_build.json");
+    downloadAnchorNode.setAttribute("download", fileName);
     document.body.appendChild(downloadAnchorNode); // required for firefox
     downloadAnchorNode.click();
     downloadAnchorNode.remove();
   };
 
+  const exportToFile = () => {
+    downloadFile(serializeBuild(bricks, buildMeta), "kensenich_lego_build.json", "text/json");
+  };
+
+  const exportToLDrawFile = () => {
+    const { text, report } = exportToLDraw(bricks, buildMeta);
+    downloadFile(text, "kensenich_lego_build.ldr", "text/plain");
+    if (hasReportEntries(report)) alert(`LDraw export finished with notes:\n\n${formatLDrawReport(report)}`);
+  };
+
+  // LDraw files replace the scene like JSON builds do; anything that didn't map is reported
+  const loadLDrawText = (text: string, label: string) => {
+    const { bricks: imported, name, report } = importFromLDraw(text);
+    if (name) setBuildMeta(createMetadata(name));
+    addToHistory(imported, label);
+    if (hasReportEntries(report)) alert(`${label}: some parts could not be converted.\n\n${formatLDrawReport(report)}`);
+    warnOnOverlaps(imported, label);
+  };
+
+  // Generated builds (images, models) are added next to the scene rather than replacing it,
+  // shifted along X to leave a one-stud gap after whatever is already there
+  const addImportedBuild = (imported: PlacedBrick[], label: string) => {
+    const scene = getSelectionBounds(bricks);
+    const incoming = getSelectionBounds(imported);
+    const shift = scene && incoming ? Math.max(0, scene[2] + 2 - incoming[0]) : 0;
+    const placed = imported.map(b => ({ ...b, position: [b.position[0] + shift, b.position[1], b.position[2]] as [number, number, number] }));
+    addToHistory([...bricks, ...placed], label);
+  };
+
   const importFromFile = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    const isLDraw = /\.(ldr|mpd)$/i.test(file.name);
     const reader = new FileReader();
     reader.onload = (evt) => {
-      try {
-        const loadedBricks = JSON.parse(evt.target?.result as string);
-        addToHistory(loadedBricks);
-      } catch (err) {
-        alert("Invalid file format");
-      }
+      const text = evt.target?.result as string;
+      if (isLDraw) loadLDrawText(text, `Import ${file.name}`);
+      else loadBuildText(text, `Import ${file.name}`);
     };
     reader.readAsText(file);
     // Reset value to allow re-uploading same file
     e.target.value = '';
   };
 
-  // --- Filtered Catalog ---
-  const filteredCatalog = useMemo(() => {
-    if (filterCategory === 'all') return BRICK_CATALOG;
-    if (filterCategory === 'basic') return BRICK_CATALOG.filter(b => b.category === 'basic' || b.category === 'plate' || b.category === 'slope');
-    if (filterCategory === 'technic') return BRICK_CATALOG.filter(b => b.category === 'technic');
-    return BRICK_CATALOG;
-  }, [filterCategory]);
+  // --- Catalog ---
+
+  // Snapshot of the live catalog so the sidebar re-filters when packs change
+  const catalog = useMemo(() => [...BRICK_CATALOG], [packs]);
+
+  useEffect(() => saveRecentParts(recentParts), [recentParts]);
+  useEffect(() => saveFavoriteParts(favoriteParts), [favoriteParts]);
+
+  const toggleFavorite = (typeId: string) => {
+    setFavoriteParts(prev => prev.includes(typeId) ? prev.filter(id => id !== typeId) : [...prev, typeId]);
+  };
+
+  // The quick toggles in the top right are shortcuts for the category facet
+  const categoryGroups = {
+    basic: ['basic', 'plate', 'tile', 'slope'],
+    technic: ['technic'],
+    all: [],
+  } as const;
+  const activeGroup = (Object.keys(categoryGroups) as (keyof typeof categoryGroups)[]).find(group =>
+    [...catalogFilter.categories].sort().join() === [...categoryGroups[group]].sort().join()
+  );
+  const setCategoryGroup = (group: keyof typeof categoryGroups) => {
+    setCatalogFilter({ ...catalogFilter, categories: [...categoryGroups[group]] });
+  };
 
   return (
     <div className="w-full h-full relative flex flex-col bg-gray-900 text-white font-sans">
       
       {/* 3D Canvas */}
-      <div className="flex-1 relative">
-        <Canvas shadows camera={{ position: [10, 10, 10], fov: 45 }}>
+      <div
+        className="flex-1 relative"
+        ref={canvasWrapperRef}
+        onPointerDown={handleBoxSelectStart}
+        onPointerMove={handleBoxSelectMove}
+        onPointerUp={handleBoxSelectEnd}
+      >
+        {/* preserveDrawingBuffer keeps the last frame readable for project thumbnails */}
+        <Canvas ref={canvasRef} shadows camera={{ position: [10, 10, 10], fov: 45 }} gl={{ preserveDrawingBuffer: true }}>
           <Lights />
+          <CameraBridge cameraRef={cameraRef} />
           <SceneContent 
             bricks={bricks}
+            catalog={catalog}
+            occupancy={occupancy}
+            connections={connections}
             tool={tool}
             selectedTypeId={selectedTypeId}
             selectedColorId={selectedColorId}
@@ -445,14 +1060,36 @@ export default function App() {
             rotation={rotation}
             onPlaceBrick={handlePlaceBrick}
             onBrickClick={handleBrickClick}
+            onHoverBrick={setHoveredBrickId}
+            selectedIds={selectedIds}
+            onSelectBrick={handleSelectBrick}
+            instructionView={instructionView}
+            previewBricks={aiPreview?.bricks ?? null}
             isSimulating={isSimulating}
+            clutchStrength={clutchStrength}
+            connectSnap={connectSnap}
+            setConnectSnap={setConnectSnap}
           />
-          <OrbitControls makeDefault enabled={!isSimulating} />
+          {/* Left-drag draws a selection box in select mode, so orbiting is off there */}
+          <OrbitControls makeDefault enabled={!isSimulating && tool !== 'select'} />
           {!isSimulating && (
             <ContactShadows position={[0, 0, 0]} opacity={0.4} scale={50} blur={2} far={4} color="#000000" />
           )}
         </Canvas>
 
+        {/* Box Selection Rectangle */}
+        {boxSelect && (
+          <div
+            className="fixed border border-blue-400 bg-blue-500/10 pointer-events-none z-20"
+            style={{
+              left: Math.min(boxSelect.start[0], boxSelect.end[0]),
+              top: Math.min(boxSelect.start[1], boxSelect.end[1]),
+              width: Math.abs(boxSelect.end[0] - boxSelect.start[0]),
+              height: Math.abs(boxSelect.end[1] - boxSelect.start[1]),
+            }}
+          />
+        )}
+
         {/* Branding & Top Right Controls */}
         <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-start pointer-events-none">
            {/* Logo / Title */}
@@ -468,22 +1105,22 @@ export default function App() {
              {/* Mode Selection (Block vs Gear) */}
              <div className="flex bg-gray-800/90 rounded-lg p-1 border border-gray-700 shadow-xl">
                 <button 
-                  onClick={() => setFilterCategory('basic')}
-                  className={`p-2 rounded transition-colors ${filterCategory === 'basic' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                  onClick={() => setCategoryGroup('basic')}
+                  className={`p-2 rounded transition-colors ${activeGroup === 'basic' ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white'}`}
                   title="Basic Bricks"
                 >
                   <Box size={24} strokeWidth={2.5} />
                 </button>
                 <button 
-                  onClick={() => setFilterCategory('technic')}
-                  className={`p-2 rounded transition-colors ${filterCategory === 'technic' ? 'bg-orange-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                  onClick={() => setCategoryGroup('technic')}
+                  className={`p-2 rounded transition-colors ${activeGroup === 'technic' ? 'bg-orange-600 text-white' : 'text-gray-400 hover:text-white'}`}
                   title="Technic Parts"
                 >
                   <Cog size={24} strokeWidth={2.5} />
                 </button>
                 <button 
-                  onClick={() => setFilterCategory('all')}
-                  className={`p-2 rounded transition-colors ${filterCategory === 'all' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
+                  onClick={() => setCategoryGroup('all')}
+                  className={`p-2 rounded transition-colors ${activeGroup === 'all' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'}`}
                   title="All Parts"
                 >
                   <span className="text-xs font-bold">ALL</span>
@@ -498,35 +1135,128 @@ export default function App() {
                {isSimulating ? <Square size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" />}
                {isSimulating ? 'STOP PHYSICS' : 'SIMULATE'}
              </button>
+
+             {/* Clutch strength per stud; can be tuned while the simulation runs */}
+             <label className="flex items-center gap-2 bg-gray-800/90 rounded-lg px-3 py-2 border border-gray-700 shadow-xl text-xs text-gray-300" title="Force each engaged stud can hold">
+               Clutch
+               <input
+                 type="range"
+                 min={0}
+                 max={DEFAULT_CLUTCH_STRENGTH * 4}
+                 step={1}
+                 value={clutchStrength}
+                 onChange={(e) => setClutchStrength(Number(e.target.value))}
+                 className="w-24 accent-green-500"
+               />
+               <span className="w-6 text-right font-mono">{clutchStrength}</span>
+             </label>
+
+             {/* Gear ratios and speeds of motor-driven axles */}
+             <DriveTrainPanel bricks={bricks} driveTrain={driveTrain} onSetRpm={setMotorRpm} onSelect={selectBricks} />
            </div>
         </div>
 
+        {/* History Panel (Left) */}
+        {showHistory && !isSimulating && (
+          <HistoryPanel history={history} onJump={jumpToHistory} onClose={() => setShowHistory(false)} />
+        )}
+
         {/* Top Center: Tools (Undo/Redo/Files) */}
         <div className="absolute top-4 left-1/2 -translate-x-1/2 flex gap-2 pointer-events-none">
            <div className="pointer-events-auto bg-gray-800/80 backdrop-blur p-2 rounded-lg flex gap-2 border border-gray-700 shadow-lg">
-             <button onClick={undo} disabled={historyIndex < 0} className="p-2 hover:bg-gray-700 rounded disabled:opacity-50" title="Undo"><Undo2 size={20} /></button>
-             <button onClick={redo} disabled={historyIndex >= history.length - 1} className="p-2 hover:bg-gray-700 rounded disabled:opacity-50" title="Redo"><Redo2 size={20} /></button>
+             <button onClick={undo} disabled={!canUndo(history)} className="p-2 hover:bg-gray-700 rounded disabled:opacity-50" title="Undo (Ctrl+Z)"><Undo2 size={20} /></button>
+             <button onClick={redo} disabled={!canRedo(history)} className="p-2 hover:bg-gray-700 rounded disabled:opacity-50" title="Redo (Ctrl+Shift+Z)"><Redo2 size={20} /></button>
+             <button onClick={() => setShowHistory(!showHistory)} className={`p-2 hover:bg-gray-700 rounded ${showHistory ? 'text-white bg-gray-700' : 'text-gray-300'}`} title="History"><History size={20} /></button>
              <div className="w-px bg-gray-600 mx-1"></div>
-             <button onClick={saveToLocalStorage} className="p-2 hover:bg-gray-700 rounded text-blue-400" title="Quick Save"><Save size={20} /></button>
+             <button onClick={() => saveCurrentProject()} className="p-2 hover:bg-gray-700 rounded text-blue-400" title="Save Build"><Save size={20} /></button>
+             <button
+               onClick={() => { refreshProjects(); setShowProjects(true); }}
+               className="p-2 hover:bg-gray-700 rounded text-blue-300"
+               title="My Builds"
+             >
+               <FolderOpen size={20} />
+             </button>
              <button onClick={exportToFile} className="p-2 hover:bg-gray-700 rounded text-green-400" title="Export File"><Download size={20} /></button>
-             <label className="p-2 hover:bg-gray-700 rounded text-yellow-400 cursor-pointer" title="Import File">
+             <button onClick={exportToLDrawFile} className="p-2 hover:bg-gray-700 rounded text-green-400" title="Export LDraw (.ldr)"><FileOutput size={20} /></button>
+             <label className="p-2 hover:bg-gray-700 rounded text-yellow-400 cursor-pointer" title="Import File (.json, .ldr, .mpd)">
                <Upload size={20} />
-               <input type="file" ref={fileInputRef} onChange={importFromFile} className="hidden" accept=".json" />
+               <input type="file" ref={fileInputRef} onChange={importFromFile} className="hidden" accept=".json,.ldr,.mpd" />
              </label>
+             <button
+               onClick={() => instructionSteps ? exitInstructions() : startInstructions()}
+               className={`p-2 hover:bg-gray-700 rounded ${instructionSteps ? 'text-white bg-gray-700' : 'text-green-300'}`}
+               title="Building Instructions"
+             >
+               <BookOpen size={20} />
+             </button>
+             <button onClick={() => setShowPartsList(true)} className="p-2 hover:bg-gray-700 rounded text-green-300" title="Parts List"><ClipboardList size={20} /></button>
+             <button onClick={() => setShowPartLibrary(true)} className="p-2 hover:bg-gray-700 rounded text-cyan-400" title="Part Library"><Library size={20} /></button>
+             <button onClick={() => setShowImageImport(true)} className="p-2 hover:bg-gray-700 rounded text-pink-400" title="Build from Image"><ImagePlus size={20} /></button>
+             <button onClick={() => setShowModelImport(true)} className="p-2 hover:bg-gray-700 rounded text-teal-400" title="Build from 3D Model (.vox, .obj)"><Boxes size={20} /></button>
              <div className="w-px bg-gray-600 mx-1"></div>
              <button onClick={clearScene} className="p-2 hover:bg-red-900/50 text-red-400 rounded" title="Clear All"><Trash2 size={20} /></button>
            </div>
         </div>
 
+        {/* Structure Warning (Top Center, below file tools) */}
+        {!isSimulating && connections.floating.size > 0 && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 bg-amber-900/80 backdrop-blur px-3 py-1 rounded-full border border-amber-600 text-amber-200 text-xs font-semibold flex items-center gap-2 pointer-events-none">
+            <AlertTriangle size={14} />
+            {connections.floating.size} unsupported brick{connections.floating.size === 1 ? '' : 's'}
+          </div>
+        )}
+
+        {/* AI Build Preview (Bottom Center, above toolbar) */}
+        {!isSimulating && aiPreview && (
+          <AiPreviewPanel
+            prompt={aiPreview.prompt}
+            partCount={aiPreview.bricks.length}
+            diagnostics={aiPreview.diagnostics}
+            onAccept={acceptAiPreview}
+            onReject={() => setAiPreview(null)}
+          />
+        )}
+
+        {/* Selection Actions (Bottom Center, above toolbar) */}
+        {!isSimulating && !instructionSteps && !aiPreview && selectedIds.size > 0 && (
+          <SelectionPanel
+            count={selectedIds.size}
+            onMove={moveSelection}
+            onRotate={rotateSelection}
+            onDuplicate={duplicateSelection}
+            onDelete={deleteSelection}
+            onRecolor={recolorSelection}
+            onSelectConnected={selectConnected}
+            onClear={() => setSelectedIds(new Set())}
+          />
+        )}
+
+        {/* Instructions Mode (replaces the toolbar) */}
+        {!isSimulating && instructionSteps && (
+          <InstructionsPanel
+            stepIndex={instructionStep}
+            stepCount={instructionSteps.length}
+            parts={stepParts}
+            isExporting={isExportingBooklet}
+            onPrev={() => setInstructionStep(Math.max(0, instructionStep - 1))}
+            onNext={() => setInstructionStep(Math.min(instructionSteps.length - 1, instructionStep + 1))}
+            onExport={exportBooklet}
+            onExit={exitInstructions}
+          />
+        )}
+
         {/* Toolbar (Bottom Center) */}
-        {!isSimulating && (
+        {!isSimulating && !instructionSteps && (
           <div className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-gray-800/90 backdrop-blur px-4 py-2 rounded-full border border-gray-700 shadow-2xl flex items-center gap-4 transition-all">
             <ToolBtn active={tool === 'view'} onClick={() => setTool('view')} icon={<Move size={20} />} tooltip="View (Cam)" />
             <ToolBtn active={tool === 'place'} onClick={() => setTool('place')} icon={<MousePointer2 size={20} />} tooltip="Place" />
+            <ToolBtn active={tool === 'connect'} onClick={() => setTool('connect')} icon={<Link2 size={20} />} tooltip="Technic Connect (Pin into Hole)" />
+            <ToolBtn active={tool === 'select'} onClick={() => setTool('select')} icon={<BoxSelect size={20} />} tooltip="Select (Shift+Click, Drag Box)" />
+            <ToolBtn active={tool === 'rotate'} onClick={() => setTool('rotate')} icon={<Rotate3d size={20} />} tooltip="Rotate Placed (Click / R, Shift for reverse)" />
             <ToolBtn active={tool === 'paint'} onClick={() => setTool('paint')} icon={<PaintBucket size={20} />} tooltip="Paint" />
             <ToolBtn active={tool === 'delete'} onClick={() => setTool('delete')} icon={<Trash2 size={20} />} tooltip="Delete" />
             <div className="w-px bg-gray-600 h-6"></div>
-            <button onClick={rotateBrick} className="p-2 hover:bg-gray-700 rounded-full text-blue-400 hover:text-blue-300 transition-colors" title="Rotate (R)">
+            <button onClick={() => rotateBrick()} className="p-2 hover:bg-gray-700 rounded-full text-blue-400 hover:text-blue-300 transition-colors" title="Rotate (R)">
               <RotateCw size={24} />
             </button>
             <div className="w-px bg-gray-600 h-6"></div>
@@ -546,80 +1276,113 @@ export default function App() {
          <div className="p-4 border-b border-gray-800 pt-20"> {/* Padding top to clear the top-right buttons */}
            <h2 className="text-xl font-bold flex items-center gap-2"><Settings className="w-5 h-5" /> Parts Catalog</h2>
            <p className="text-xs text-gray-500 mt-1">
-             {filterCategory === 'all' && 'Showing All Parts'}
-             {filterCategory === 'basic' && 'Showing Basic Blocks'}
-             {filterCategory === 'technic' && 'Showing Technic Parts'}
+             {(!activeGroup || isFilterActive({ ...catalogFilter, categories: [] })) ? 'Showing Filtered Parts' : (
+               <>
+                 {activeGroup === 'all' && 'Showing All Parts'}
+                 {activeGroup === 'basic' && 'Showing Basic Blocks'}
+                 {activeGroup === 'technic' && 'Showing Technic Parts'}
+               </>
+             )}
            </p>
          </div>
          
          {/* Colors */}
          <div className="p-4 border-b border-gray-800">
-           <h3 className="text-sm font-semibold text-gray-400 mb-3 uppercase tracking-wider">Color</h3>
-           <div className="flex flex-wrap gap-2">
-             {COLORS.map(c => (
-               <button 
-                 key={c.id}
-                 onClick={() => setSelectedColorId(c.id)}
-                 className={`w-8 h-8 rounded-full border-2 transition-transform hover:scale-110 ${selectedColorId === c.id ? 'border-white scale-110 shadow-lg' : 'border-transparent'}`}
-                 style={{ backgroundColor: c.hex }}
-                 title={c.name}
-               />
-             ))}
+           <h3 className="text-sm font-semibold text-gray-400 mb-1 uppercase tracking-wider">Color</h3>
+           <div className="max-h-48 overflow-y-auto custom-scrollbar pr-1">
+             <ColorPalette colors={COLORS} selectedColorId={selectedColorId} onSelect={setSelectedColorId} />
            </div>
          </div>
 
-         {/* Parts List */}
-         <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
-            <div className="grid grid-cols-2 gap-3">
-              {filteredCatalog.map(brick => (
-                <button
-                  key={brick.id}
-                  onClick={() => {
-                     setSelectedTypeId(brick.id);
-                     setTool('place');
-                  }}
-                  className={`flex flex-col items-center p-3 rounded-lg border transition-all ${selectedTypeId === brick.id ? 'bg-blue-900/30 border-blue-500' : 'bg-gray-800 border-gray-700 hover:border-gray-500'}`}
-                >
-                  <div className="w-full h-12 bg-gray-700/50 rounded mb-2 flex items-center justify-center text-xs text-gray-500 font-mono relative overflow-hidden">
-                     {/* Quick visual hint */}
-                     <div className={`absolute inset-2 border-2 border-gray-600 opacity-30 ${brick.category === 'technic' ? 'rounded-full' : 'rounded-sm'}`}></div>
-                     <span className="z-10">{brick.width}x{brick.depth}</span>
-                  </div>
-                  <span className="text-xs font-medium text-center">{brick.name}</span>
-                </button>
-              ))}
-            </div>
-         </div>
+         {/* Parts: search, facets, recents & favorites */}
+         <PartCatalog
+           catalog={catalog}
+           filter={catalogFilter}
+           onFilterChange={setCatalogFilter}
+           selectedTypeId={selectedTypeId}
+           colorId={selectedColorId}
+           recent={recentParts}
+           favorites={favoriteParts}
+           onToggleFavorite={toggleFavorite}
+           onSelect={(typeId) => {
+             setSelectedTypeId(typeId);
+             setTool('place');
+           }}
+         />
       </div>
 
+      {/* Transient status message (replaces blocking alerts for saves) */}
+      {notice && (
+        <div className="absolute top-32 left-1/2 -translate-x-1/2 z-[60] bg-gray-800/95 border border-gray-600 text-sm px-4 py-2 rounded-lg shadow-xl pointer-events-none">
+          {notice}
+        </div>
+      )}
+
+      {/* Parts List / Bill of Materials */}
+      {showPartsList && (
+        <PartsListPanel bricks={bricks} onDownload={downloadFile} onClose={() => setShowPartsList(false)} />
+      )}
+
+      {/* Part packs and custom part editor */}
+      {showPartLibrary && (
+        <PartLibraryPanel
+          packs={packs}
+          bricks={bricks}
+          onChangePacks={updatePacks}
+          onDownload={downloadFile}
+          onClose={() => setShowPartLibrary(false)}
+        />
+      )}
+
+      {/* Picture to mosaic or heightmap */}
+      {showImageImport && (
+        <ImageImportDialog
+          onImport={(imported, label) => { addImportedBuild(imported, label); setShowImageImport(false); }}
+          onClose={() => setShowImageImport(false)}
+        />
+      )}
+
+      {/* Voxel or mesh model to bricks */}
+      {showModelImport && (
+        <ModelImportDialog
+          onImport={(imported, label) => { addImportedBuild(imported, label); setShowModelImport(false); }}
+          onClose={() => setShowModelImport(false)}
+        />
+      )}
+
+      {/* Project Browser */}
+      {showProjects && (
+        <ProjectBrowser
+          projects={projects}
+          currentProjectId={currentProjectId}
+          onOpen={openProject}
+          onRename={renameProjectById}
+          onDuplicate={duplicateProjectById}
+          onDelete={deleteProjectById}
+          onSaveAsNew={() => saveCurrentProject(true)}
+          onClose={() => setShowProjects(false)}
+        />
+      )}
+
       {/* AI Modal */}
       {showAiModal && (
-        <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
-           <div className="bg-gray-800 rounded-xl shadow-2xl max-w-md w-full border border-gray-700 overflow-hidden">
-              <div className="p-6">
-                 <h2 className="text-2xl font-bold mb-2 flex items-center gap-2"><Sparkles className="text-purple-400" /> AI Architect</h2>
-                 <p className="text-gray-400 text-sm mb-4">Describe what you want to build. The AI will generate a structure for you.</p>
-                 
-                 <textarea 
-                   className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-purple-500 outline-none resize-none h-32"
-                   placeholder="e.g. A small red castle, a yellow racing car, a tall tower..."
-                   value={aiPrompt}
-                   onChange={(e) => setAiPrompt(e.target.value)}
-                 />
-                 
-                 <div className="mt-4 flex gap-3 justify-end">
-                    <button onClick={() => setShowAiModal(false)} className="px-4 py-2 rounded-lg hover:bg-gray-700 text-gray-300 transition-colors">Cancel</button>
-                    <button 
-                      onClick={handleAiBuild} 
-                      disabled={isAiLoading || !aiPrompt.trim()}
-                      className="bg-purple-600 hover:bg-purple-500 disabled:bg-gray-700 disabled:text-gray-500 text-white px-6 py-2 rounded-lg font-semibold flex items-center gap-2 transition-all"
-                    >
-                      {isAiLoading ? <Loader2 className="animate-spin" /> : 'Generate Build'}
-                    </button>
-                 </div>
-              </div>
-           </div>
-        </div>
+        <AiArchitectModal
+          prompt={aiPrompt}
+          isLoading={isAiLoading}
+          error={aiError}
+          providers={AI_PROVIDERS}
+          providerId={aiProviderId}
+          chat={aiChat}
+          onProviderChange={changeAiProvider}
+          onPromptChange={setAiPrompt}
+          onGenerate={handleAiBuild}
+          onEdit={handleAiEdit}
+          isTurnApplied={isAiTurnApplied}
+          onUndoTurn={undoAiTurn}
+          onClearChat={() => setAiChat([])}
+          onCancel={cancelAiRequest}
+          onClose={closeAiModal}
+        />
       )}
     </div>
   );
@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Sparkles, Loader2, Undo2, Send, Trash2, AlertTriangle } from 'lucide-react';
+import { AiChatTurn } from '../services/buildEdit';
+import { AiProvider } from '../services/aiProvider';
+import { summarizeRepairs } from '../services/buildRepair';
+
+type AiMode = 'create' | 'edit';
+
+interface AiArchitectModalProps {
+  prompt: string;
+  isLoading: boolean;
+  error: string | null;
+  providers: AiProvider[];
+  providerId: string;
+  chat: AiChatTurn[];
+  onProviderChange: (id: string) => void;
+  onPromptChange: (prompt: string) => void;
+  onGenerate: () => void;
+  onEdit: () => void;
+  isTurnApplied: (turn: AiChatTurn) => boolean;
+  onUndoTurn: (turn: AiChatTurn) => void;
+  onClearChat: () => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+// "New build" generates a structure to preview; "Edit build" is a conversation about the
+// current scene where each answer is applied straight away and can be undone on its own.
+// Editing needs a provider that supports it.
+export const AiArchitectModal: React.FC<AiArchitectModalProps> = ({
+  prompt, isLoading, error, providers, providerId, chat,
+  onProviderChange, onPromptChange, onGenerate, onEdit, isTurnApplied, onUndoTurn, onClearChat, onCancel, onClose
+}) => {
+  const provider = providers.find(p => p.id === providerId) ?? providers[0];
+  const canEdit = !!provider.editBuild;
+  const [chosenMode, setMode] = useState<AiMode>(chat.length > 0 ? 'edit' : 'create');
+  const mode = canEdit ? chosenMode : 'create';
+  const chatEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [chat.length, mode]);
+
+  const submit = mode === 'create' ? onGenerate : onEdit;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl max-w-md w-full border border-gray-700 overflow-hidden">
+        <div className="p-6">
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <h2 className="text-2xl font-bold flex items-center gap-2"><Sparkles className="text-purple-400" /> AI Architect</h2>
+            <select
+              value={provider.id}
+              onChange={(e) => onProviderChange(e.target.value)}
+              disabled={isLoading}
+              className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-sm text-gray-300 outline-none focus:ring-2 focus:ring-purple-500"
+              title={provider.description}
+            >
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>{p.name}{p.isConfigured() ? '' : ' (not set up)'}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-gray-500 mb-3">{provider.description}</p>
+
+          <div className="flex gap-1 mb-3 bg-gray-900 rounded-lg p-1 text-sm">
+            {(['create', 'edit'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                disabled={m === 'edit' && !canEdit}
+                title={m === 'edit' && !canEdit ? `${provider.name} can only create new builds` : undefined}
+                className={`flex-1 py-1.5 rounded-md transition-colors disabled:opacity-40 disabled:hover:text-gray-400 ${mode === m ? 'bg-purple-600 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {m === 'create' ? 'New build' : 'Edit build'}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'create' ? (
+            <p className="text-gray-400 text-sm mb-4">Describe what you want to build. The AI will generate a structure for you.</p>
+          ) : (
+            <div className="mb-3">
+              <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-2 bg-gray-900/60 rounded-lg p-2">
+                {chat.length === 0 && (
+                  <p className="text-gray-500 text-sm p-2">Ask for changes to the current build, e.g. "make the roof blue" or "add a door at the front".</p>
+                )}
+                {chat.map((turn, i) => (
+                  <div key={i} className={`text-sm rounded-lg px-3 py-2 ${turn.role === 'user' ? 'bg-purple-900/40 ml-8' : 'bg-gray-700/60 mr-8'}`}>
+                    <p className="whitespace-pre-wrap">{turn.text}</p>
+                    {turn.role === 'assistant' && turn.diagnostics && turn.diagnostics.length > 0 && (
+                      <p className="text-xs text-amber-300 mt-1">{summarizeRepairs(turn.diagnostics)}</p>
+                    )}
+                    {turn.entryId !== undefined && (
+                      <button
+                        onClick={() => onUndoTurn(turn)}
+                        disabled={!isTurnApplied(turn) || isLoading}
+                        className="mt-1 text-xs text-gray-400 hover:text-white disabled:opacity-40 disabled:hover:text-gray-400 flex items-center gap-1"
+                        title="Undo just this change"
+                      >
+                        <Undo2 size={12} /> {isTurnApplied(turn) ? 'Undo' : 'Undone'}
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <div ref={chatEndRef} />
+              </div>
+              {chat.length > 0 && (
+                <button onClick={onClearChat} className="mt-1 text-xs text-gray-500 hover:text-gray-300 flex items-center gap-1">
+                  <Trash2 size={12} /> Start over
+                </button>
+              )}
+            </div>
+          )}
+
+          <textarea
+            className={`w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-purple-500 outline-none resize-none ${mode === 'create' ? 'h-32' : 'h-20'}`}
+            placeholder={mode === 'create' ? 'e.g. A small red castle, a yellow racing car, a tall tower...' : 'e.g. Make the walls two bricks taller'}
+            value={prompt}
+            onChange={(e) => onPromptChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (mode === 'edit' && e.key === 'Enter' && !e.shiftKey && !isLoading && prompt.trim()) {
+                e.preventDefault();
+                onEdit();
+              }
+            }}
+          />
+
+          {error && (
+            <p className="mt-3 text-sm text-red-300 flex items-start gap-2"><AlertTriangle size={16} className="shrink-0 mt-0.5" /> {error}</p>
+          )}
+
+          <div className="mt-4 flex gap-3 justify-end">
+            {isLoading ? (
+              <button onClick={onCancel} className="px-4 py-2 rounded-lg hover:bg-gray-700 text-gray-300 transition-colors">Stop</button>
+            ) : (
+              <button onClick={onClose} className="px-4 py-2 rounded-lg hover:bg-gray-700 text-gray-300 transition-colors">
+                {mode === 'create' ? 'Cancel' : 'Close'}
+              </button>
+            )}
+            <button
+              onClick={submit}
+              disabled={isLoading || !prompt.trim()}
+              className="bg-purple-600 hover:bg-purple-500 disabled:bg-gray-700 disabled:text-gray-500 text-white px-6 py-2 rounded-lg font-semibold flex items-center gap-2 transition-all"
+            >
+              {isLoading ? <Loader2 className="animate-spin" /> : mode === 'create' ? 'Generate Build' : <><Send size={16} /> Send</>}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Sparkles, Check, X } from 'lucide-react';
+import { RepairAction, RepairDiagnostic, summarizeRepairs } from '../services/buildRepair';
+
+interface AiPreviewPanelProps {
+  prompt: string;
+  partCount: number;
+  diagnostics: RepairDiagnostic[];
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const ACTION_STYLES: Record<RepairAction, string> = {
+  snapped: 'text-gray-400',
+  rotated: 'text-gray-400',
+  recolored: 'text-blue-300',
+  raised: 'text-amber-300',
+  lowered: 'text-amber-300',
+  removed: 'text-red-300',
+  skipped: 'text-red-300',
+};
+
+// Generated parts wait in the scene as a preview until the user keeps or discards them
+export const AiPreviewPanel: React.FC<AiPreviewPanelProps> = ({ prompt, partCount, diagnostics, onAccept, onReject }) => (
+  <div className="absolute bottom-24 left-1/2 -translate-x-1/2 bg-gray-800/95 backdrop-blur p-3 rounded-lg border border-purple-700 shadow-2xl text-gray-300 w-96">
+    <p className="text-sm font-semibold text-purple-300 flex items-center gap-2">
+      <Sparkles size={16} /> <span className="truncate">AI: {prompt}</span>
+    </p>
+    <p className="text-xs text-gray-400 mt-1">
+      {partCount} part{partCount === 1 ? '' : 's'} ready
+      {diagnostics.length > 0 ? ` · ${summarizeRepairs(diagnostics)}` : ' · no fixes needed'}
+    </p>
+
+    {diagnostics.length > 0 && (
+      <ul className="mt-2 max-h-32 overflow-y-auto custom-scrollbar text-xs space-y-0.5 bg-gray-900/60 rounded p-2">
+        {diagnostics.map((d, i) => (
+          <li key={i} className={ACTION_STYLES[d.action]}>
+            {d.index !== undefined && <span className="text-gray-500 font-mono mr-1">#{d.index + 1}</span>}{d.message}
+          </li>
+        ))}
+      </ul>
+    )}
+
+    <div className="flex justify-end gap-2 mt-3">
+      <button onClick={onReject} className="px-3 py-1.5 text-sm rounded bg-gray-700 hover:bg-gray-600 flex items-center gap-1"><X size={14} /> Discard</button>
+      <button
+        onClick={onAccept}
+        disabled={partCount === 0}
+        className="px-3 py-1.5 text-sm rounded bg-purple-600 hover:bg-purple-500 disabled:opacity-40 disabled:hover:bg-purple-600 flex items-center gap-1"
+      >
+        <Check size={14} /> Add to Build
+      </button>
+    </div>
+  </div>
+);
@@ -0,0 +1,238 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { BrickTypeDefinition, PlacedBrick } from '../types';
+import { BrickMaterial, HoleMaterial, getPartGeometry, STUD_GEOMETRY, HOLE_GEOMETRY } from './BrickGeometry';
+import { getColor } from '../services/colors';
+import { OccupancyIndex } from '../services/occupancyGrid';
+import { getVisibleStuds, getVisibleHoles, getDetailLevel } from '../services/partDetails';
+
+// How a placed brick is drawn; bricks that share a style, part and color share a batch
+export interface BrickStyle {
+  highlight?: string; // Emissive tint, e.g. for selected or unsupported bricks
+  dimmed?: boolean;   // Faded, e.g. earlier steps in the instructions view
+}
+
+export interface BrickBatch {
+  key: string;
+  type: BrickTypeDefinition;
+  colorId: string;
+  style: BrickStyle;
+  bricks: PlacedBrick[];
+}
+
+const DIMMED_OPACITY = 0.35;
+
+// Groups bricks into batches; a null style hides the brick
+export const groupBrickBatches = (
+  bricks: PlacedBrick[],
+  catalog: BrickTypeDefinition[],
+  styleOf: (brick: PlacedBrick) => BrickStyle | null
+): BrickBatch[] => {
+  const types = new Map(catalog.map(t => [t.id, t]));
+  const batches = new Map<string, BrickBatch>();
+  for (const brick of bricks) {
+    const type = types.get(brick.typeId);
+    const style = type && styleOf(brick);
+    if (!style) continue;
+    const key = `${brick.typeId}|${brick.colorId}|${style.highlight ?? ''}|${style.dimmed ? 'dim' : ''}`;
+    let batch = batches.get(key);
+    if (!batch) {
+      batch = { key, type, colorId: brick.colorId, style, bricks: [] };
+      batches.set(key, batch);
+    }
+    batch.bricks.push(brick);
+  }
+  return [...batches.values()];
+};
+
+// Id of the placed brick under a pointer event, or null for anything else (e.g. the floor)
+export const getPickedBrickId = (e: ThreeEvent<PointerEvent | MouseEvent>): string | null => {
+  const brickIds: string[] | undefined = e.object.userData?.brickIds;
+  if (!brickIds || e.instanceId === undefined) return null;
+  return brickIds[e.instanceId] ?? null;
+};
+
+// World-space normal of the face under a pointer event. Face normals are local to the
+// part geometry, so instanced hits go through the instance's rotation first.
+export const getHitNormal = (e: ThreeEvent<PointerEvent | MouseEvent>) => {
+  const normal = e.face ? e.face.normal.clone() : new THREE.Vector3(0, 1, 0);
+  const object = e.object;
+  if (object instanceof THREE.InstancedMesh && e.instanceId !== undefined) {
+    const matrix = new THREE.Matrix4();
+    object.getMatrixAt(e.instanceId, matrix);
+    normal.transformDirection(matrix);
+  }
+  return normal.transformDirection(object.matrixWorld);
+};
+
+// Instance buffers grow in powers of two so adding a brick rarely reallocates
+const capacityFor = (count: number) => Math.max(16, 2 ** Math.ceil(Math.log2(count)));
+
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+const UNIT_SCALE = new THREE.Vector3(1, 1, 1);
+
+// Camera travel (world units) before studs and holes are sorted into detail levels again
+const LOD_REFRESH_DISTANCE = 1;
+
+interface BrickBatchesProps {
+  batches: BrickBatch[];
+  occupancy: OccupancyIndex; // Decides which studs and holes are covered
+  // Omitted for batches the tools should not pick, e.g. a preview
+  onClick?: (e: ThreeEvent<MouseEvent>) => void;
+  onPointerMove?: (e: ThreeEvent<PointerEvent>) => void;
+}
+
+// Studs or holes of one batch, with their instance matrices worked out up front
+interface DetailSet {
+  kind: 'stud' | 'hole';
+  brickIds: string[];
+  centers: THREE.Vector3[];
+  matrices: Float32Array;
+}
+
+const toDetailSet = (kind: DetailSet['kind'], details: { brickId: string, position: [number, number, number] }[], matrixOf: (i: number, matrix: THREE.Matrix4) => void): DetailSet => {
+  const matrices = new Float32Array(details.length * 16);
+  const matrix = new THREE.Matrix4();
+  details.forEach((_, i) => {
+    matrixOf(i, matrix);
+    matrix.toArray(matrices, i * 16);
+  });
+  return {
+    kind,
+    brickIds: details.map(d => d.brickId),
+    centers: details.map(d => new THREE.Vector3(...d.position)),
+    matrices,
+  };
+};
+
+// Instances of a detail set split across a full and a low-poly mesh by camera distance.
+// Far away ones are left out, and so are the ones partDetails found covered.
+const DetailLayer: React.FC<{
+  set: DetailSet,
+  geometry: { high: THREE.BufferGeometry, low: THREE.BufferGeometry },
+  material: React.ReactElement,
+  castShadow?: boolean,
+} & Omit<BrickBatchesProps, 'batches' | 'occupancy'>> = ({ set, geometry, material, castShadow = false, onClick, onPointerMove }) => {
+  const highRef = useRef<THREE.InstancedMesh>(null);
+  const lowRef = useRef<THREE.InstancedMesh>(null);
+  const sorted = useRef<{ set: DetailSet, mesh: THREE.InstancedMesh, camera: THREE.Vector3 } | null>(null);
+  const capacity = capacityFor(set.brickIds.length);
+
+  useFrame(({ camera }) => {
+    const high = highRef.current;
+    const low = lowRef.current;
+    if (!high || !low) return;
+    const last = sorted.current;
+    if (last && last.set === set && last.mesh === high && last.camera.distanceTo(camera.position) < LOD_REFRESH_DISTANCE) return;
+    sorted.current = { set, mesh: high, camera: camera.position.clone() };
+
+    const ids: Record<'high' | 'low', string[]> = { high: [], low: [] };
+    set.centers.forEach((center, i) => {
+      const level = getDetailLevel(set.kind, center.distanceTo(camera.position));
+      if (level === 'hidden') return;
+      const mesh = level === 'high' ? high : low;
+      mesh.instanceMatrix.array.set(set.matrices.subarray(i * 16, i * 16 + 16), ids[level].length * 16);
+      ids[level].push(set.brickIds[i]);
+    });
+    ([[high, ids.high], [low, ids.low]] as const).forEach(([mesh, brickIds]) => {
+      mesh.count = brickIds.length;
+      mesh.userData.brickIds = brickIds;
+      mesh.instanceMatrix.needsUpdate = true;
+      mesh.computeBoundingSphere();
+    });
+  });
+
+  if (set.brickIds.length === 0) return null;
+  return (
+    <>
+      <instancedMesh ref={highRef} args={[geometry.high, undefined, capacity]} onClick={onClick} onPointerMove={onPointerMove} castShadow={castShadow}>
+        {material}
+      </instancedMesh>
+      <instancedMesh ref={lowRef} args={[geometry.low, undefined, capacity]} onClick={onClick} onPointerMove={onPointerMove}>
+        {material}
+      </instancedMesh>
+    </>
+  );
+};
+
+const InstancedBatch: React.FC<{ batch: BrickBatch } & Omit<BrickBatchesProps, 'batches'>> = ({ batch, occupancy, onClick, onPointerMove }) => {
+  const bodyRef = useRef<THREE.InstancedMesh>(null);
+  const geometry = getPartGeometry(batch.type);
+  const capacity = capacityFor(batch.bricks.length);
+  // Maps instance index back to brick id for picking
+  const userData = useMemo(() => ({ brickIds: batch.bricks.map(b => b.id) }), [batch.bricks]);
+
+  useLayoutEffect(() => {
+    const mesh = bodyRef.current;
+    if (!mesh) return;
+    const matrix = new THREE.Matrix4();
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    batch.bricks.forEach((brick, i) => {
+      position.set(...brick.position);
+      quaternion.setFromAxisAngle(Y_AXIS, brick.rotation * Math.PI / 2);
+      mesh.setMatrixAt(i, matrix.compose(position, quaternion, UNIT_SCALE));
+    });
+    mesh.count = batch.bricks.length;
+    mesh.instanceMatrix.needsUpdate = true;
+    // Bounds drive both frustum culling and the raycast early-out
+    mesh.computeBoundingBox();
+    mesh.computeBoundingSphere();
+  }, [batch.bricks, geometry, capacity]);
+
+  // Studs sit on top of their column; holes are unit cylinders tipped onto their axis and scaled
+  const studs = useMemo(() => {
+    const details = batch.bricks.flatMap(brick => getVisibleStuds(brick, batch.type, occupancy));
+    return toDetailSet('stud', details, (i, matrix) => matrix.makeTranslation(...details[i].position));
+  }, [batch.bricks, batch.type, occupancy]);
+
+  const holes = useMemo(() => {
+    const details = batch.bricks.flatMap(brick => getVisibleHoles(brick, batch.type, occupancy));
+    const quaternion = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    return toDetailSet('hole', details, (i, matrix) => {
+      const { position, alongX, length, radius } = details[i];
+      quaternion.setFromEuler(alongX ? new THREE.Euler(0, 0, Math.PI / 2) : new THREE.Euler(Math.PI / 2, 0, 0));
+      matrix.compose(new THREE.Vector3(...position), quaternion, scale.set(radius, length, radius));
+    });
+  }, [batch.bricks, batch.type, occupancy]);
+
+  const dimmed = !!batch.style.dimmed;
+  const material = (
+    <BrickMaterial
+      color={getColor(batch.colorId)}
+      opacity={dimmed ? DIMMED_OPACITY : 1}
+      transparent={dimmed}
+      highlight={batch.style.highlight}
+    />
+  );
+
+  return (
+    <>
+      <instancedMesh
+        ref={bodyRef}
+        args={[geometry.body, undefined, capacity]}
+        userData={userData}
+        onClick={onClick}
+        onPointerMove={onPointerMove}
+        castShadow
+        receiveShadow
+      >
+        {material}
+      </instancedMesh>
+      <DetailLayer set={studs} geometry={STUD_GEOMETRY} material={material} castShadow onClick={onClick} onPointerMove={onPointerMove} />
+      <DetailLayer set={holes} geometry={HOLE_GEOMETRY} material={<HoleMaterial />} onClick={onClick} onPointerMove={onPointerMove} />
+    </>
+  );
+};
+
+// Placed bricks in the editor scene: one instanced draw call per part, color and style,
+// plus the visible studs and holes at two levels of detail
+export const BrickBatches: React.FC<BrickBatchesProps> = ({ batches, occupancy, onClick, onPointerMove }) => (
+  <>
+    {batches.map(batch => (
+      <InstancedBatch key={batch.key} batch={batch} occupancy={occupancy} onClick={onClick} onPointerMove={onPointerMove} />
+    ))}
+  </>
+);
@@ -1,125 +1,214 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import * as THREE from 'three';
-import { BrickTypeDefinition } from '../types';
-import { STUD_SIZE, BRICK_HEIGHT } from '../constants';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { BrickColor, BrickTypeDefinition, ColorFinish } from '../types';
+import { STUD_SIZE } from '../constants';
+import { getGearRadius, getShapePolyhedron, getStudCells, isRodShape } from '../services/partShapes';
+import { getConnectionPoints } from '../services/connectionPoints';
+import { getColor } from '../services/colors';
+import { getPartHeight } from '../services/units';
+
+// A part as merged meshes: the body and its studs in the part's color, and the
+// Technic holes in black. The body can be shared by every copy of the part in an
+// instanced batch, which draws studs and holes separately (see partDetails).
+export interface PartGeometry {
+  body: THREE.BufferGeometry;
+  studs: THREE.BufferGeometry | null;
+  holes: THREE.BufferGeometry | null;
+}
+
+// Stud and hole shapes at full and reduced detail; holes are unit cylinders scaled per hole
+export const STUD_GEOMETRY = {
+  high: new THREE.CylinderGeometry(0.3, 0.3, 0.2, 20).translate(0, 0.1, 0),
+  low: new THREE.CylinderGeometry(0.3, 0.3, 0.2, 6).translate(0, 0.1, 0),
+};
+
+export const HOLE_GEOMETRY = {
+  high: new THREE.CylinderGeometry(1, 1, 1, 16),
+  low: new THREE.CylinderGeometry(1, 1, 1, 6),
+};
+
+// Merging needs matching attributes, so every piece is flattened and loses its UVs
+const merge = (pieces: THREE.BufferGeometry[]) => {
+  const flat = pieces.map(piece => {
+    const result = piece.index ? piece.toNonIndexed() : piece;
+    if (result !== piece) piece.dispose();
+    result.deleteAttribute('uv');
+    return result;
+  });
+  const merged = mergeGeometries(flat)!;
+  flat.forEach(piece => piece.dispose());
+  return merged;
+};
+
+// Triangulated, flat-shaded mesh of a shaped part's convex body
+const buildShapeBody = (type: BrickTypeDefinition) => {
+  const solid = getShapePolyhedron(type, 0.05);
+  if (!solid) return null;
+  const positions: number[] = [];
+  solid.faces.forEach(face => {
+    for (let k = 1; k < face.length - 1; k++) {
+      [face[0], face[k], face[k + 1]].forEach(index => positions.push(...solid.vertices[index]));
+    }
+  });
+  const result = new THREE.BufferGeometry();
+  result.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  result.computeVertexNormals();
+  return result;
+};
+
+// Pins, axles, bushes and gears lie along X through the hole height
+const buildRodBody = (kind: string, length: number, axisHeight: number, teeth = 8) => {
+  const alongX = (geometry: THREE.BufferGeometry) => geometry.rotateZ(Math.PI / 2);
+  let pieces: THREE.BufferGeometry[];
+  if (kind === 'gear') {
+    // Disc at the pitch radius with a ring of teeth standing out from it
+    const radius = getGearRadius(teeth);
+    pieces = [alongX(new THREE.CylinderGeometry(radius - 0.08, radius - 0.08, 0.3, Math.max(16, teeth)))];
+    for (let i = 0; i < teeth; i++) {
+      const angle = (i / teeth) * Math.PI * 2;
+      pieces.push(new THREE.BoxGeometry(0.3, 0.16, 0.2).rotateX(-angle).translate(0, Math.sin(angle) * radius, Math.cos(angle) * radius));
+    }
+  } else if (kind === 'axle') {
+    // Cross-shaped profile
+    pieces = [new THREE.BoxGeometry(length, 0.44, 0.14), new THREE.BoxGeometry(length, 0.14, 0.44)];
+  } else if (kind === 'bush') {
+    pieces = [alongX(new THREE.CylinderGeometry(0.38, 0.38, length, 20))];
+  } else {
+    // Pin: shaft with a collar where the two halves meet
+    pieces = [alongX(new THREE.CylinderGeometry(0.24, 0.24, length, 16)), alongX(new THREE.CylinderGeometry(0.3, 0.3, 0.1, 16))];
+  }
+  return pieces.map(piece => piece.translate(0, axisHeight, 0));
+};
+
+export const buildPartGeometry = (type: BrickTypeDefinition): PartGeometry => {
+  const { width, depth } = type;
+  // Actual dimensions in World Units
+  const w = width * STUD_SIZE;
+  const d = depth * STUD_SIZE;
+  const h = getPartHeight(type);
+
+  // Main body, with a slight inset for visual separation
+  const body = isRodShape(type)
+    ? buildRodBody(type.shape!.kind, w - 0.05, h / 2, type.shape!.teeth)
+    : [buildShapeBody(type) ?? new THREE.BoxGeometry(w - 0.05, h, d - 0.05).translate(0, h / 2, 0)];
+
+  // Studs; slopes only carry them on their flat rear
+  const studs = getStudCells(type).map(([i, j]) => {
+    const x = (i - (width - 1) / 2) * STUD_SIZE;
+    const z = (j - (depth - 1) / 2) * STUD_SIZE;
+    return STUD_GEOMETRY.high.clone().translate(x, h, z);
+  });
+
+  // Technic holes, as dark cylinders through the part along each hole's axis
+  const holes = getConnectionPoints(type)
+    .filter(p => p.kind === 'pin-hole' || p.kind === 'axle-hole')
+    .map(p => {
+      const alongX = Math.abs(p.direction[0]) > 0.5;
+      const radius = p.kind === 'axle-hole' ? 0.16 : 0.25;
+      const hole = new THREE.CylinderGeometry(radius, radius, (alongX ? w : d) + 0.05, 16);
+      // Cylinders stand along Y; tip them over onto the hole axis
+      if (alongX) hole.rotateZ(Math.PI / 2);
+      else hole.rotateX(Math.PI / 2);
+      return hole.translate(...p.position);
+    });
+
+  return {
+    body: merge(body),
+    studs: studs.length > 0 ? merge(studs) : null,
+    holes: holes.length > 0 ? merge(holes) : null,
+  };
+};
+
+// Geometry shared by every copy of a catalog part. Keyed by the definition object,
+// so a part edited or replaced by a pack gets fresh geometry.
+const partGeometryCache = new WeakMap<BrickTypeDefinition, PartGeometry>();
+
+export const getPartGeometry = (type: BrickTypeDefinition) => {
+  let geometry = partGeometryCache.get(type);
+  if (!geometry) {
+    geometry = buildPartGeometry(type);
+    partGeometryCache.set(type, geometry);
+  }
+  return geometry;
+};
+
+// Material settings per color finish; physical materials only where clearcoat is needed
+interface FinishSettings {
+  physical: boolean;
+  roughness: number;
+  metalness: number;
+  opacity?: number; // Cap on opacity for see-through finishes
+  clearcoat?: number;
+  glow?: number; // Self-illumination in the part's own color
+}
+
+const FINISHES: Record<ColorFinish, FinishSettings> = {
+  solid: { physical: false, roughness: 0.2, metalness: 0.1 },
+  trans: { physical: true, roughness: 0.05, metalness: 0, opacity: 0.55, clearcoat: 1 },
+  metallic: { physical: false, roughness: 0.35, metalness: 0.8 },
+  pearl: { physical: true, roughness: 0.3, metalness: 0.45, clearcoat: 0.8 },
+  chrome: { physical: false, roughness: 0.05, metalness: 1 },
+  glow: { physical: false, roughness: 0.4, metalness: 0, glow: 0.5 },
+};
+
+export const BrickMaterial: React.FC<{ color: BrickColor, opacity?: number, transparent?: boolean, highlight?: string }> = ({ color, opacity = 1, transparent = false, highlight }) => {
+  const finish = FINISHES[color.finish ?? 'solid'];
+  const seeThrough = finish.opacity !== undefined;
+  const common = {
+    color: color.hex,
+    opacity: Math.min(opacity, finish.opacity ?? 1),
+    transparent: transparent || seeThrough,
+    depthWrite: !seeThrough,
+    roughness: finish.roughness,
+    metalness: finish.metalness,
+    // Selection and warning tints win over a glowing finish
+    emissive: highlight || (finish.glow ? color.hex : '#000000'),
+    emissiveIntensity: highlight ? 0.6 : finish.glow ?? 0,
+  };
+  return finish.physical
+    ? <meshPhysicalMaterial {...common} clearcoat={finish.clearcoat ?? 0} clearcoatRoughness={0.1} />
+    : <meshStandardMaterial {...common} />;
+};
+
+export const HoleMaterial = () => <meshStandardMaterial color="#000000" roughness={1} />;
 
 interface BrickGeometryProps {
   type: BrickTypeDefinition;
-  color: string;
+  colorId: string; // Palette id; the palette entry's finish picks the material
   opacity?: number;
   transparent?: boolean;
+  highlight?: string; // Emissive tint, e.g. for unsupported or selected bricks
 }
 
-export const BrickGeometry: React.FC<BrickGeometryProps> = ({ type, color, opacity = 1, transparent = false }) => {
-  const { width, depth, height, hasStuds, hasHoles } = type;
-  
-  // Actual dimensions in World Units
-  const w = width * STUD_SIZE;
-  const d = depth * STUD_SIZE;
-  const h = height * BRICK_HEIGHT;
-
-  const geometry = useMemo(() => {
-    // Base block
-    const baseGeometry = new THREE.BoxGeometry(w - 0.05, h, d - 0.05); // Slight inset for visual separation
-    const geometries: THREE.BufferGeometry[] = [baseGeometry];
-
-    // Studs
-    if (hasStuds) {
-      const studGeo = new THREE.CylinderGeometry(0.3, 0.3, 0.2, 16);
-      studGeo.rotateX(0); // Default is upright Y
-      
-      // Calculate stud positions
-      for (let i = 0; i < width; i++) {
-        for (let j = 0; j < depth; j++) {
-          const stud = studGeo.clone();
-          // Center centering
-          const x = (i - (width - 1) / 2) * STUD_SIZE;
-          const z = (j - (depth - 1) / 2) * STUD_SIZE;
-          const y = h / 2 + 0.1;
-          
-          stud.translate(x, y, z);
-          geometries.push(stud);
-        }
-      }
-    }
+// A single part on its own, e.g. the placement ghost, a physics body or a preview.
+// Placed bricks in the editor scene are drawn in batches instead (see BrickBatches).
+export const BrickGeometry: React.FC<BrickGeometryProps> = ({ type, colorId, opacity = 1, transparent = false, highlight }) => {
+  // Not shared: the part editor's preview rebuilds its draft on every keystroke
+  const geometry = useMemo(() => buildPartGeometry(type), [type]);
+  useEffect(() => () => {
+    geometry.body.dispose();
+    geometry.studs?.dispose();
+    geometry.holes?.dispose();
+  }, [geometry]);
 
-    // Technic Holes (Visual Representation using dark cylinders)
-    // We don't do actual boolean subtraction here for performance, we just add "caps" that look like holes
-    // or we rely on the material transparency/texture. For this demo, we add black circles.
-    
-    // Merge
-    // In a real app we would merge geometries for draw call reduction, 
-    // but React Three Fiber handles instances well. 
-    // For simple composition, we return a Group or merged geometry.
-    // Let's use a group for simplicity in this component structure.
-    
-    return null; // Logic handled in render
-  }, [width, depth, height, hasStuds]);
-
-  // Stud generation for rendering
-  const studs = useMemo(() => {
-    if (!hasStuds) return [];
-    const studList = [];
-    for (let i = 0; i < width; i++) {
-      for (let j = 0; j < depth; j++) {
-        studList.push({
-          x: (i - (width - 1) / 2) * STUD_SIZE,
-          z: (j - (depth - 1) / 2) * STUD_SIZE,
-        });
-      }
-    }
-    return studList;
-  }, [width, depth, hasStuds]);
-
-  // Technic Holes generation
-  const holes = useMemo(() => {
-    if (!hasHoles) return [];
-    const holeList = [];
-    // Holes usually run along the side of the beam (Depth axis if width is 1)
-    if (width === 1) {
-       for (let j = 0; j < depth; j++) {
-         holeList.push({
-           x: 0,
-           z: (j - (depth - 1) / 2) * STUD_SIZE,
-           rot: Math.PI / 2 // Rotate to face side
-         });
-       }
-    }
-    return holeList;
-  }, [width, depth, hasHoles]);
+  const material = <BrickMaterial color={getColor(colorId)} opacity={opacity} transparent={transparent} highlight={highlight} />;
 
   return (
     <group>
-      {/* Main Body */}
-      <mesh position={[0, h/2, 0]} castShadow receiveShadow>
-        <boxGeometry args={[w - 0.05, h, d - 0.05]} />
-        <meshStandardMaterial color={color} opacity={opacity} transparent={transparent} roughness={0.2} metalness={0.1} />
+      <mesh geometry={geometry.body} castShadow receiveShadow>
+        {material}
       </mesh>
-
-      {/* Studs */}
-      {hasStuds && studs.map((pos, idx) => (
-        <mesh key={`stud-${idx}`} position={[pos.x, h + 0.1, pos.z]} castShadow receiveShadow>
-          <cylinderGeometry args={[0.3, 0.3, 0.2, 20]} />
-          <meshStandardMaterial color={color} opacity={opacity} transparent={transparent} roughness={0.2} metalness={0.1} />
+      {geometry.studs && (
+        <mesh geometry={geometry.studs} castShadow receiveShadow>
+          {material}
         </mesh>
-      ))}
-
-      {/* Technic Holes (Visual) */}
-      {hasHoles && holes.map((pos, idx) => (
-        <mesh key={`hole-${idx}`} position={[pos.x, h/2, pos.z]} rotation={[0, 0, Math.PI/2]}>
-          <cylinderGeometry args={[0.25, 0.25, w + 0.05, 16]} />
-          <meshStandardMaterial color="#000000" roughness={1} />
+      )}
+      {geometry.holes && (
+        <mesh geometry={geometry.holes}>
+          <HoleMaterial />
         </mesh>
-      ))}
-      
-      {/* Technic Pins/Connectors Hints (just visuals for style) */}
-      {hasHoles && (
-         <mesh position={[0, h/2, 0]} castShadow receiveShadow>
-            <boxGeometry args={[w - 0.1, h - 0.2, d - 0.1]} />
-             <meshStandardMaterial color={color} opacity={opacity} transparent={transparent} roughness={0.2} metalness={0.1} />
-         </mesh>
       )}
-
     </group>
   );
 };
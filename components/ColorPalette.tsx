@@ -0,0 +1,64 @@
+import React from 'react';
+import { BrickColor, ColorFinish } from '../types';
+
+interface ColorPaletteProps {
+  colors: BrickColor[];
+  selectedColorId: string;
+  onSelect: (colorId: string) => void;
+}
+
+const GROUPS: { label: string; finishes: ColorFinish[] }[] = [
+  { label: 'Solid', finishes: ['solid'] },
+  { label: 'Transparent', finishes: ['trans'] },
+  { label: 'Metallic', finishes: ['pearl', 'metallic', 'chrome'] },
+  { label: 'Glow', finishes: ['glow'] },
+];
+
+// CSS hint of the finish: a checkerboard behind see-through colors, a sheen on metals
+const swatchStyle = (color: BrickColor): React.CSSProperties => {
+  switch (color.finish ?? 'solid') {
+    case 'trans':
+      return {
+        backgroundColor: '#9ca3af',
+        backgroundImage: `linear-gradient(${color.hex}b0, ${color.hex}b0), repeating-conic-gradient(#4b5563 0 25%, #d1d5db 0 50%)`,
+        backgroundSize: '100% 100%, 8px 8px',
+      };
+    case 'pearl':
+    case 'metallic':
+    case 'chrome':
+      return { background: `linear-gradient(135deg, ${color.hex} 20%, #ffffff 50%, ${color.hex} 80%)` };
+    case 'glow':
+      return { backgroundColor: color.hex, boxShadow: `0 0 6px ${color.hex}` };
+    default:
+      return { backgroundColor: color.hex };
+  }
+};
+
+export const ColorPalette: React.FC<ColorPaletteProps> = ({ colors, selectedColorId, onSelect }) => {
+  const selected = colors.find(c => c.id === selectedColorId);
+  return (
+    <div>
+      <p className="text-xs text-gray-300 mb-2 h-4 truncate">{selected?.name}</p>
+      {GROUPS.map(group => {
+        const members = colors.filter(c => group.finishes.includes(c.finish ?? 'solid'));
+        if (members.length === 0) return null;
+        return (
+          <div key={group.label} className="mb-2">
+            <p className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">{group.label}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {members.map(c => (
+                <button
+                  key={c.id}
+                  onClick={() => onSelect(c.id)}
+                  className={`w-6 h-6 rounded-full border-2 transition-transform hover:scale-110 ${selectedColorId === c.id ? 'border-white scale-110 shadow-lg' : 'border-transparent'}`}
+                  style={swatchStyle(c)}
+                  title={c.name}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { Cog, Zap } from 'lucide-react';
+import { PlacedBrick } from '../types';
+import { BRICK_CATALOG } from '../constants';
+import { DriveTrain } from '../services/driveTrain';
+
+interface DriveTrainPanelProps {
+  bricks: PlacedBrick[];
+  driveTrain: DriveTrain;
+  onSetRpm: (motorId: string, rpm: number) => void;
+  onSelect: (brickIds: string[]) => void;
+}
+
+const axisName = (axis: [number, number, number]) => (axis[0] ? 'X' : axis[1] ? 'Y' : 'Z');
+
+// Commits on blur or Enter so typing a speed is one undo step
+const MotorSpeedInput = ({ rpm, onCommit }: { rpm: number, onCommit: (rpm: number) => void }) => {
+  const [draft, setDraft] = useState(String(rpm));
+  useEffect(() => setDraft(String(rpm)), [rpm]);
+
+  const commit = () => {
+    const value = Number(draft);
+    if (Number.isFinite(value) && value !== rpm) onCommit(value);
+    else setDraft(String(rpm));
+  };
+
+  return (
+    <input
+      type="number"
+      step={10}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+      className="w-16 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-right font-mono outline-none focus:border-orange-500"
+    />
+  );
+};
+
+export const DriveTrainPanel: React.FC<DriveTrainPanelProps> = ({ bricks, driveTrain, onSetRpm, onSelect }) => {
+  const axleRotors = driveTrain.rotors.filter(r => r.axleIds.length > 0);
+  if (driveTrain.motors.length === 0 && axleRotors.length === 0) return null;
+
+  const byId = new Map(bricks.map(b => [b.id, b]));
+  const partName = (id: string) => BRICK_CATALOG.find(b => b.id === byId.get(id)?.typeId)?.name ?? id;
+
+  return (
+    <div className="bg-gray-800/90 rounded-lg p-3 border border-gray-700 shadow-xl text-xs text-gray-300 w-64 max-h-72 overflow-y-auto custom-scrollbar">
+      <p className="font-semibold text-orange-300 uppercase tracking-wider mb-2 flex items-center gap-1"><Cog size={14} /> Drive Train</p>
+
+      {driveTrain.motors.map((motor, i) => (
+        <div key={motor.motorId} className="flex items-center gap-2 py-1">
+          <Zap size={14} className="text-yellow-400 shrink-0" />
+          <button onClick={() => onSelect([motor.motorId])} className="hover:text-white truncate text-left flex-1" title="Select motor">
+            Motor {i + 1}
+            {motor.rotor === null && <span className="text-gray-500 ml-1">(no axle)</span>}
+          </button>
+          <MotorSpeedInput rpm={motor.rpm} onCommit={(rpm) => onSetRpm(motor.motorId, rpm)} />
+          <span className="text-gray-500">rpm</span>
+        </div>
+      ))}
+
+      {axleRotors.length > 0 && <div className="border-t border-gray-700 my-2" />}
+      {axleRotors.map((rotor, i) => (
+        <button
+          key={rotor.index}
+          onClick={() => onSelect(rotor.brickIds)}
+          className="w-full flex items-center gap-2 py-1 hover:text-white text-left"
+          title={`${rotor.axleIds.map(partName).join(', ')}, speed signed about +${axisName(rotor.axis)}`}
+        >
+          <span className="flex-1 truncate">Axle {i + 1}</span>
+          {rotor.jammed ? (
+            <span className="text-red-400 font-semibold">Jammed</span>
+          ) : rotor.rpm === null ? (
+            <span className="text-gray-500">idle</span>
+          ) : (
+            <>
+              <span className="font-mono">{rotor.rpm > 0 ? '+' : ''}{Math.round(rotor.rpm * 10) / 10} rpm</span>
+              <span className="font-mono text-orange-300 w-14 text-right">
+                {rotor.torqueRatio === null ? '–' : `×${rotor.torqueRatio.toFixed(2)}`}
+              </span>
+            </>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
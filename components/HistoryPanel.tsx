@@ -0,0 +1,40 @@
+import React from 'react';
+import { History, X } from 'lucide-react';
+import { HistoryState } from '../services/history';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onJump: (index: number) => void; // Number of entries to have applied
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onClose }) => (
+  <div className="absolute top-24 left-4 w-64 max-h-[60vh] bg-gray-800/90 backdrop-blur rounded-lg border border-gray-700 shadow-xl flex flex-col z-10">
+    <div className="flex items-center justify-between p-3 border-b border-gray-700">
+      <h3 className="text-sm font-semibold flex items-center gap-2"><History size={16} /> History</h3>
+      <button onClick={onClose} className="p-1 hover:bg-gray-700 rounded text-gray-400" title="Close"><X size={14} /></button>
+    </div>
+    <div className="overflow-y-auto custom-scrollbar p-2 flex flex-col gap-1 text-xs">
+      <button
+        onClick={() => onJump(0)}
+        className={`text-left px-2 py-1 rounded ${history.index === 0 ? 'bg-blue-900/50 text-white' : 'text-gray-400 hover:bg-gray-700'}`}
+      >
+        Start
+      </button>
+      {history.entries.map((entry, i) => {
+        const applied = i < history.index;
+        const current = i === history.index - 1;
+        return (
+          <button
+            key={entry.id}
+            onClick={() => onJump(i + 1)}
+            className={`text-left px-2 py-1 rounded flex justify-between gap-2 ${current ? 'bg-blue-900/50 text-white' : applied ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-500 italic hover:bg-gray-700'}`}
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className="text-gray-500 font-mono shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
@@ -0,0 +1,143 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ImagePlus, X, Loader2 } from 'lucide-react';
+import { PlacedBrick } from '../types';
+import {
+  DEFAULT_IMAGE_OPTIONS, ImageBuildOptions, MAX_IMAGE_STUDS, PixelGrid, buildFromImage, loadImagePixels
+} from '../services/imageMosaic';
+import { getColorHex } from '../services/colors';
+import { getBrickBounds } from '../services/occupancyGrid';
+
+interface ImageImportDialogProps {
+  onImport: (bricks: PlacedBrick[], label: string) => void;
+  onClose: () => void;
+}
+
+// Pixel size of one stud in the preview
+const PREVIEW_SCALE = 4;
+
+export const ImageImportDialog: React.FC<ImageImportDialogProps> = ({ onImport, onClose }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [options, setOptions] = useState<ImageBuildOptions>(DEFAULT_IMAGE_OPTIONS);
+  const [pixels, setPixels] = useState<PixelGrid | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  // Rescale whenever the image or the stud width changes
+  useEffect(() => {
+    if (!file) return;
+    let stale = false;
+    loadImagePixels(file, options.width)
+      .then(result => { if (!stale) { setPixels(result); setError(null); } })
+      .catch(() => { if (!stale) { setPixels(null); setError('This file could not be read as an image.'); } });
+    return () => { stale = true; };
+  }, [file, options.width]);
+
+  const bricks = useMemo(() => pixels ? buildFromImage(pixels, options) : [], [pixels, options]);
+
+  // Top-down view of the result, one block per stud
+  useEffect(() => {
+    const canvas = previewRef.current;
+    if (!canvas || !pixels) return;
+    canvas.width = pixels.width * PREVIEW_SCALE;
+    canvas.height = pixels.height * PREVIEW_SCALE;
+    const ctx = canvas.getContext('2d')!;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const originX = -Math.floor(pixels.width / 2);
+    const originZ = -Math.floor(pixels.height / 2);
+    // Later courses are drawn over earlier ones, so heightmaps show their top bricks
+    [...bricks].sort((a, b) => a.position[1] - b.position[1]).forEach(brick => {
+      const bounds = getBrickBounds(brick);
+      if (!bounds) return;
+      const { width, depth } = bounds;
+      const x = bounds.minX - originX;
+      const z = bounds.minZ - originZ;
+      ctx.fillStyle = getColorHex(brick.colorId);
+      ctx.fillRect(x * PREVIEW_SCALE, z * PREVIEW_SCALE, width * PREVIEW_SCALE, depth * PREVIEW_SCALE);
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.35)';
+      ctx.strokeRect(x * PREVIEW_SCALE + 0.5, z * PREVIEW_SCALE + 0.5, width * PREVIEW_SCALE - 1, depth * PREVIEW_SCALE - 1);
+    });
+  }, [bricks, pixels]);
+
+  const update = (changes: Partial<ImageBuildOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] border border-gray-700 flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+          <h2 className="text-xl font-bold flex items-center gap-2"><ImagePlus className="text-pink-400" /> Build from Image</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded-lg text-gray-400" title="Close"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4 text-sm text-gray-300">
+          <input
+            type="file"
+            accept="image/*"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="block w-full text-sm text-gray-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+          />
+
+          <div className="flex gap-1 bg-gray-900 rounded-lg p-1">
+            {(['mosaic', 'heightmap'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => update({ mode })}
+                className={`flex-1 py-1.5 rounded-md transition-colors ${options.mode === mode ? 'bg-pink-600 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {mode === 'mosaic' ? 'Flat mosaic' : 'Heightmap'}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-3">
+            <span className="w-28 shrink-0">Width: {options.width} studs</span>
+            <input
+              type="range" min={8} max={MAX_IMAGE_STUDS} step={2} value={options.width}
+              onChange={(e) => update({ width: Number(e.target.value) })}
+              className="flex-1 accent-pink-500"
+            />
+          </label>
+
+          {options.mode === 'heightmap' && (
+            <label className="flex items-center gap-3">
+              <span className="w-28 shrink-0">Height: {options.maxHeight} bricks</span>
+              <input
+                type="range" min={1} max={20} value={options.maxHeight}
+                onChange={(e) => update({ maxHeight: Number(e.target.value) })}
+                className="flex-1 accent-pink-500"
+              />
+            </label>
+          )}
+
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={options.dither} onChange={(e) => update({ dither: e.target.checked })} className="accent-pink-500" />
+            Dither colors (smoother shading, more parts)
+          </label>
+
+          {error && <p className="text-red-300">{error}</p>}
+          {file && !pixels && !error && <p className="flex items-center gap-2 text-gray-400"><Loader2 size={16} className="animate-spin" /> Reading image…</p>}
+          {pixels && (
+            <div className="space-y-2">
+              <div className="bg-gray-900 rounded-lg p-2 flex justify-center overflow-auto custom-scrollbar">
+                <canvas ref={previewRef} className="max-w-full" style={{ imageRendering: 'pixelated' }} />
+              </div>
+              <p className="text-xs text-gray-400">
+                {pixels.width} × {pixels.height} studs · {bricks.length} part{bricks.length === 1 ? '' : 's'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg hover:bg-gray-700 text-gray-300 transition-colors">Cancel</button>
+          <button
+            onClick={() => onImport(bricks, `${options.mode === 'mosaic' ? 'Mosaic' : 'Heightmap'} from ${file?.name ?? 'image'}`)}
+            disabled={bricks.length === 0}
+            className="bg-pink-600 hover:bg-pink-500 disabled:bg-gray-700 disabled:text-gray-500 text-white px-6 py-2 rounded-lg font-semibold transition-all"
+          >
+            Add to Build
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Printer, X, Loader2 } from 'lucide-react';
+import { BRICK_CATALOG } from '../constants';
+import { StepPart } from '../services/instructions';
+import { PartThumbnail } from './PartThumbnail';
+import { getColorHex } from '../services/colors';
+
+interface InstructionsPanelProps {
+  stepIndex: number;
+  stepCount: number;
+  parts: StepPart[];
+  isExporting: boolean;
+  onPrev: () => void;
+  onNext: () => void;
+  onExport: () => void;
+  onExit: () => void;
+}
+
+export const InstructionsPanel: React.FC<InstructionsPanelProps> = ({
+  stepIndex, stepCount, parts, isExporting, onPrev, onNext, onExport, onExit
+}) => (
+  <>
+    {/* Parts callout for the current step */}
+    <div className="absolute top-24 left-4 bg-blue-950/80 backdrop-blur border-2 border-blue-400/70 rounded-lg p-3 shadow-xl max-w-xs">
+      <p className="text-xs font-semibold text-blue-200 uppercase tracking-wider mb-2">Parts for this step</p>
+      <div className="flex flex-wrap gap-3">
+        {parts.map(part => {
+          const def = BRICK_CATALOG.find(b => b.id === part.typeId);
+          return (
+            <div key={`${part.typeId}|${part.colorId}`} className="flex flex-col items-center" title={part.name}>
+              {def
+                ? <PartThumbnail type={def} colorId={part.colorId} className="w-14 h-14" />
+                : <div className="w-14 h-14 rounded" style={{ backgroundColor: getColorHex(part.colorId) }} />}
+              <span className="text-sm font-bold">{part.count}x</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+
+    {/* Step navigation */}
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-gray-800/90 backdrop-blur px-4 py-2 rounded-full border border-gray-700 shadow-2xl flex items-center gap-3">
+      <button onClick={onPrev} disabled={stepIndex === 0 || isExporting} className="p-2 hover:bg-gray-700 rounded-full disabled:opacity-40" title="Previous step (←)">
+        <ChevronLeft size={24} />
+      </button>
+      <span className="font-bold text-lg tabular-nums min-w-[5rem] text-center">
+        {stepIndex + 1} <span className="text-gray-500 text-sm">/ {stepCount}</span>
+      </span>
+      <button onClick={onNext} disabled={stepIndex >= stepCount - 1 || isExporting} className="p-2 hover:bg-gray-700 rounded-full disabled:opacity-40" title="Next step (→)">
+        <ChevronRight size={24} />
+      </button>
+      <div className="w-px bg-gray-600 h-6"></div>
+      <button onClick={onExport} disabled={isExporting} className="p-2 hover:bg-gray-700 rounded-full text-green-400" title="Export printable booklet">
+        {isExporting ? <Loader2 size={20} className="animate-spin" /> : <Printer size={20} />}
+      </button>
+      <button onClick={onExit} disabled={isExporting} className="p-2 hover:bg-gray-700 rounded-full text-gray-400" title="Exit instructions (Esc)">
+        <X size={20} />
+      </button>
+    </div>
+  </>
+);
@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Boxes, X, Loader2 } from 'lucide-react';
+import { PlacedBrick } from '../types';
+import { BRICK_CATALOG, COLORS } from '../constants';
+import {
+  MAX_MODEL_STUDS, MeshModel, VoxelImportError, VoxelModel, buildFromVolume, parseObj, parseVox, resampleVoxels, voxelizeMesh
+} from '../services/voxelImport';
+import { buildConnectionGraph } from '../services/connectionGraph';
+import { getBrickBounds } from '../services/occupancyGrid';
+
+interface ModelImportDialogProps {
+  onImport: (bricks: PlacedBrick[], label: string) => void;
+  onClose: () => void;
+}
+
+type LoadedModel = { kind: 'vox'; model: VoxelModel } | { kind: 'obj'; text: string };
+
+// OBJ files have no natural scale on the stud grid, so they start at this many studs across
+const DEFAULT_OBJ_STUDS = 24;
+// Packing reruns this long after the size slider stops moving
+const REBUILD_DELAY_MS = 250;
+
+interface ModelStats {
+  width: number;
+  depth: number;
+  layers: number;
+  parts: { name: string; count: number }[];
+  floating: number;
+}
+
+const summarize = (bricks: PlacedBrick[]): ModelStats => {
+  const bounds = bricks.map(getBrickBounds).filter(b => !!b);
+  const counts = new Map<string, number>();
+  bricks.forEach(b => counts.set(b.typeId, (counts.get(b.typeId) ?? 0) + 1));
+  return {
+    width: bounds.length ? Math.max(...bounds.map(b => b.minX + b.width)) - Math.min(...bounds.map(b => b.minX)) : 0,
+    depth: bounds.length ? Math.max(...bounds.map(b => b.minZ + b.depth)) - Math.min(...bounds.map(b => b.minZ)) : 0,
+    layers: bounds.length ? Math.max(...bounds.map(b => b.baseLayer + b.layers)) : 0,
+    parts: [...counts].sort((a, b) => b[1] - a[1])
+      .map(([typeId, count]) => ({ name: BRICK_CATALOG.find(d => d.id === typeId)?.name ?? typeId, count })),
+    floating: buildConnectionGraph(bricks).floating.size,
+  };
+};
+
+export const ModelImportDialog: React.FC<ModelImportDialogProps> = ({ onImport, onClose }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [loaded, setLoaded] = useState<LoadedModel | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [studs, setStuds] = useState(DEFAULT_OBJ_STUDS);
+  const [builtStuds, setBuiltStuds] = useState(DEFAULT_OBJ_STUDS);
+  const [defaultColorId, setDefaultColorId] = useState('grey');
+
+  useEffect(() => {
+    if (!file) return;
+    let stale = false;
+    const isVox = /\.vox$/i.test(file.name);
+    setLoaded(null);
+    setError(null);
+    (isVox ? file.arrayBuffer() : file.text())
+      .then(content => {
+        if (stale) return;
+        if (typeof content === 'string') {
+          parseObj(content, 'grey'); // Only to reject files with no faces; colors are applied below
+          setLoaded({ kind: 'obj', text: content });
+          setStuds(DEFAULT_OBJ_STUDS);
+          setBuiltStuds(DEFAULT_OBJ_STUDS);
+          return;
+        }
+        const model = parseVox(content);
+        // Voxel art keeps one stud per voxel unless it is too big for that
+        const native = Math.min(MAX_MODEL_STUDS, Math.max(model.size[0], model.size[2]));
+        setLoaded({ kind: 'vox', model });
+        setStuds(native);
+        setBuiltStuds(native);
+      })
+      .catch(e => {
+        if (!stale) setError(e instanceof VoxelImportError ? e.message : 'This file could not be read.');
+      });
+    return () => { stale = true; };
+  }, [file]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setBuiltStuds(studs), REBUILD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [studs]);
+
+  const mesh = useMemo<MeshModel | null>(
+    () => loaded?.kind === 'obj' ? parseObj(loaded.text, defaultColorId) : null,
+    [loaded, defaultColorId]);
+
+  // Packing a big model takes a moment, so it runs after the dialog has shown that it is
+  // building rather than while it renders
+  const [result, setResult] = useState<{ bricks: PlacedBrick[]; stats: ModelStats } | null>(null);
+  const [isPacking, setIsPacking] = useState(false);
+  useEffect(() => {
+    if (!loaded) {
+      setResult(null);
+      setIsPacking(false);
+      return;
+    }
+    setIsPacking(true);
+    const timer = setTimeout(() => {
+      const bricks = loaded.kind === 'vox'
+        ? buildFromVolume(resampleVoxels(loaded.model, builtStuds))
+        : mesh ? buildFromVolume(voxelizeMesh(mesh, builtStuds)) : [];
+      setResult({ bricks, stats: summarize(bricks) });
+      setIsPacking(false);
+    });
+    return () => clearTimeout(timer);
+  }, [loaded, mesh, builtStuds]);
+
+  const bricks = result?.bricks ?? [];
+  const stats = result?.stats;
+  const isBuilding = studs !== builtStuds || isPacking;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] border border-gray-700 flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+          <h2 className="text-xl font-bold flex items-center gap-2"><Boxes className="text-teal-400" /> Build from 3D Model</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded-lg text-gray-400" title="Close"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4 text-sm text-gray-300">
+          <input
+            type="file"
+            accept=".vox,.obj"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="block w-full text-sm text-gray-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600"
+          />
+          <p className="text-xs text-gray-500">MagicaVoxel (.vox) or Wavefront (.obj) models. Meshes should be closed so their inside can be filled.</p>
+
+          <label className="flex items-center gap-3">
+            <span className="w-28 shrink-0">Size: {studs} studs</span>
+            <input
+              type="range" min={4} max={MAX_MODEL_STUDS} value={studs}
+              onChange={(e) => setStuds(Number(e.target.value))}
+              className="flex-1 accent-teal-500"
+            />
+          </label>
+
+          {loaded?.kind === 'obj' && (
+            <label className="flex items-center gap-3">
+              <span className="w-28 shrink-0">Default color</span>
+              <select
+                value={defaultColorId}
+                onChange={(e) => setDefaultColorId(e.target.value)}
+                className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-teal-500"
+                title="For faces without a vertex color or a material named after a palette color"
+              >
+                {COLORS.filter(c => (c.finish ?? 'solid') === 'solid').map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </label>
+          )}
+
+          {error && <p className="text-red-300">{error}</p>}
+          {file && !loaded && !error && <p className="flex items-center gap-2 text-gray-400"><Loader2 size={16} className="animate-spin" /> Reading model…</p>}
+          {loaded && !error && isBuilding && !stats && (
+            <p className="flex items-center gap-2 text-gray-400"><Loader2 size={16} className="animate-spin" /> Building…</p>
+          )}
+          {loaded && !error && stats && (
+            <div className={`space-y-2 ${isBuilding ? 'opacity-50' : ''}`}>
+              {bricks.length === 0 ? (
+                <p className="text-gray-400">Nothing to build: the model came out empty at this size.</p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-400">
+                    {stats.width} × {stats.depth} studs, {stats.layers} plates tall · {bricks.length} part{bricks.length === 1 ? '' : 's'}
+                  </p>
+                  {stats.floating > 0 && (
+                    <p className="text-xs text-amber-300">{stats.floating} part{stats.floating === 1 ? ' is' : 's are'} not connected to the rest and will need support.</p>
+                  )}
+                  <ul className="bg-gray-900 rounded-lg p-2 text-xs space-y-0.5">
+                    {stats.parts.map(p => (
+                      <li key={p.name} className="flex justify-between"><span>{p.name}</span><span className="text-gray-500">× {p.count}</span></li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg hover:bg-gray-700 text-gray-300 transition-colors">Cancel</button>
+          <button
+            onClick={() => onImport(bricks, `Model from ${file?.name ?? 'file'}`)}
+            disabled={bricks.length === 0 || isBuilding}
+            className="bg-teal-600 hover:bg-teal-500 disabled:bg-gray-700 disabled:text-gray-500 text-white px-6 py-2 rounded-lg font-semibold transition-all"
+          >
+            Add to Build
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, Star, Clock, SlidersHorizontal, X } from 'lucide-react';
+import { BrickTypeDefinition } from '../types';
+import { PartThumbnail } from './PartThumbnail';
+import {
+  CatalogFilter, PartFeature, EMPTY_CATALOG_FILTER, filterCatalog, getFacetOptions, toggleFacet, isFilterActive,
+  formatHeight, getFootprintLabel
+} from '../services/catalogSearch';
+
+interface PartCatalogProps {
+  catalog: BrickTypeDefinition[];
+  filter: CatalogFilter;
+  onFilterChange: (filter: CatalogFilter) => void;
+  selectedTypeId: string;
+  colorId: string; // Thumbnails show the current paint color
+  recent: string[];
+  favorites: string[];
+  onToggleFavorite: (typeId: string) => void;
+  onSelect: (typeId: string) => void;
+}
+
+const GRID_COLUMNS = 2;
+
+const FEATURES: { value: PartFeature; label: string }[] = [
+  { value: 'studs', label: 'Studs' },
+  { value: 'no-studs', label: 'Smooth top' },
+  { value: 'holes', label: 'Holes' },
+];
+
+const Chip = ({ active, onClick, children }: { active: boolean, onClick: () => void, children: React.ReactNode }) => (
+  <button
+    onClick={onClick}
+    className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${active ? 'bg-blue-600 border-blue-500 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+  >
+    {children}
+  </button>
+);
+
+// Row of small thumbnails for the recent and favorite lists
+const QuickRow = ({ icon, label, parts, colorId, selectedTypeId, onSelect }: {
+  icon: React.ReactNode, label: string, parts: BrickTypeDefinition[], colorId: string, selectedTypeId: string, onSelect: (id: string) => void
+}) => (
+  <div className="mb-3">
+    <p className="text-xs text-gray-500 uppercase tracking-wider mb-1 flex items-center gap-1">{icon} {label}</p>
+    <div className="flex gap-1 overflow-x-auto custom-scrollbar pb-1">
+      {parts.map(part => (
+        <button
+          key={part.id}
+          onClick={() => onSelect(part.id)}
+          title={part.name}
+          className={`shrink-0 rounded border p-0.5 ${selectedTypeId === part.id ? 'border-blue-500 bg-blue-900/30' : 'border-gray-700 bg-gray-800 hover:border-gray-500'}`}
+        >
+          <PartThumbnail type={part} colorId={colorId} className="w-10 h-10" />
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const PartCatalog: React.FC<PartCatalogProps> = ({
+  catalog, filter, onFilterChange, selectedTypeId, colorId, recent, favorites, onToggleFavorite, onSelect
+}) => {
+  const [showFacets, setShowFacets] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => filterCatalog(catalog, filter), [catalog, filter]);
+  const facets = useMemo(() => getFacetOptions(catalog), [catalog]);
+  const byId = useMemo(() => new Map(catalog.map(p => [p.id, p])), [catalog]);
+  const recentParts = recent.map(id => byId.get(id)).filter((p): p is BrickTypeDefinition => !!p);
+  const favoriteParts = favorites.map(id => byId.get(id)).filter((p): p is BrickTypeDefinition => !!p);
+  const filtering = isFilterActive(filter);
+
+  // A new result list starts the keyboard cursor over
+  useEffect(() => setActiveIndex(-1), [results]);
+
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    gridRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  // "/" jumps to the search box from anywhere outside a text field
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key !== '/' || e.ctrlKey || e.metaKey || e.altKey) return;
+      e.preventDefault();
+      searchRef.current?.focus();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Arrows move through the grid, Enter picks the part, Escape clears the search
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const last = results.length - 1;
+    const move = (index: number) => {
+      e.preventDefault();
+      setActiveIndex(Math.max(0, Math.min(last, index)));
+    };
+    if (e.key === 'ArrowDown') {
+      // Leave the search box so left/right move the cursor instead of the caret
+      if (e.target === searchRef.current) gridRef.current?.focus();
+      move(activeIndex < 0 ? 0 : activeIndex + GRID_COLUMNS);
+    }
+    else if (e.key === 'ArrowUp') {
+      if (activeIndex < GRID_COLUMNS) {
+        e.preventDefault();
+        setActiveIndex(-1);
+        searchRef.current?.focus();
+      } else move(activeIndex - GRID_COLUMNS);
+    }
+    else if (e.key === 'ArrowRight' && e.target !== searchRef.current) move(activeIndex + 1);
+    else if (e.key === 'ArrowLeft' && e.target !== searchRef.current) move(activeIndex - 1);
+    else if (e.key === 'Enter') {
+      const part = results[activeIndex < 0 ? 0 : activeIndex];
+      if (part) onSelect(part.id);
+    } else if (e.key === 'Escape') {
+      onFilterChange({ ...filter, query: '' });
+      searchRef.current?.blur();
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0" onKeyDown={handleKeyDown}>
+      {/* Search & facets */}
+      <div className="p-4 pb-2 border-b border-gray-800">
+        <div className="flex gap-2">
+          <div className="flex-1 flex items-center gap-2 bg-gray-800 border border-gray-700 rounded-lg px-2 focus-within:border-blue-500">
+            <Search size={14} className="text-gray-500 shrink-0" />
+            <input
+              ref={searchRef}
+              value={filter.query}
+              onChange={(e) => onFilterChange({ ...filter, query: e.target.value })}
+              placeholder="Search parts  ( / )"
+              className="flex-1 bg-transparent py-1.5 text-sm outline-none min-w-0"
+            />
+            {filter.query && (
+              <button onClick={() => onFilterChange({ ...filter, query: '' })} className="text-gray-500 hover:text-white" title="Clear search"><X size={14} /></button>
+            )}
+          </div>
+          <button
+            onClick={() => setShowFacets(!showFacets)}
+            className={`p-2 rounded-lg border ${showFacets ? 'bg-gray-700 border-gray-600 text-white' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+            title="Filters"
+          >
+            <SlidersHorizontal size={16} />
+          </button>
+        </div>
+
+        {showFacets && (
+          <div className="mt-3 flex flex-col gap-2">
+            <div className="flex flex-wrap gap-1">
+              {facets.categories.map(c => (
+                <Chip key={c} active={filter.categories.includes(c)} onClick={() => onFilterChange(toggleFacet(filter, 'categories', c))}>
+                  <span className="capitalize">{c}</span>
+                </Chip>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {facets.sizes.map(s => (
+                <Chip key={s} active={filter.sizes.includes(s)} onClick={() => onFilterChange(toggleFacet(filter, 'sizes', s))}>{s}</Chip>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {facets.heights.map(h => (
+                <Chip key={h} active={filter.heights.includes(h)} onClick={() => onFilterChange(toggleFacet(filter, 'heights', h))}>{formatHeight(h)}</Chip>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {FEATURES.map(f => (
+                <Chip key={f.value} active={filter.features.includes(f.value)} onClick={() => onFilterChange(toggleFacet(filter, 'features', f.value))}>{f.label}</Chip>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+          <span>{results.length} of {catalog.length} parts</span>
+          {filtering && (
+            <button onClick={() => onFilterChange(EMPTY_CATALOG_FILTER)} className="hover:text-white">Clear filters</button>
+          )}
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto p-4 custom-scrollbar outline-none" ref={gridRef} tabIndex={0}>
+        {!filtering && favoriteParts.length > 0 && (
+          <QuickRow icon={<Star size={12} />} label="Favorites" parts={favoriteParts} colorId={colorId} selectedTypeId={selectedTypeId} onSelect={onSelect} />
+        )}
+        {!filtering && recentParts.length > 0 && (
+          <QuickRow icon={<Clock size={12} />} label="Recent" parts={recentParts} colorId={colorId} selectedTypeId={selectedTypeId} onSelect={onSelect} />
+        )}
+
+        {results.length === 0 && <p className="text-gray-500 text-sm text-center py-8">No parts match.</p>}
+        <div className="grid grid-cols-2 gap-3">
+          {results.map((brick, i) => {
+            const favorite = favorites.includes(brick.id);
+            return (
+              <div
+                key={brick.id}
+                data-index={i}
+                className={`relative group rounded-lg border transition-all ${selectedTypeId === brick.id ? 'bg-blue-900/30 border-blue-500' : 'bg-gray-800 border-gray-700 hover:border-gray-500'} ${activeIndex === i ? 'ring-2 ring-yellow-400' : ''}`}
+              >
+                <button
+                  onClick={() => onSelect(brick.id)}
+                  tabIndex={-1}
+                  className="w-full flex flex-col items-center p-3"
+                  title={`${brick.name} (${brick.id})`}
+                >
+                  <PartThumbnail type={brick} colorId={colorId} className="w-full h-16 mb-1" />
+                  <span className="text-xs font-medium text-center">{brick.name}</span>
+                  <span className="text-[10px] text-gray-500 font-mono">{getFootprintLabel(brick)}</span>
+                </button>
+                <button
+                  onClick={() => onToggleFavorite(brick.id)}
+                  tabIndex={-1}
+                  className={`absolute top-1 right-1 p-1 rounded ${favorite ? 'text-yellow-400' : 'text-gray-600 opacity-0 group-hover:opacity-100 hover:text-yellow-300'}`}
+                  title={favorite ? 'Remove from favorites' : 'Add to favorites'}
+                >
+                  <Star size={12} fill={favorite ? 'currentColor' : 'none'} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import { Save, X } from 'lucide-react';
+import { BrickTypeDefinition } from '../types';
+import { BRICK_CATALOG } from '../constants';
+import { BrickGeometry } from './BrickGeometry';
+import { CUSTOM_PACK_ID, getPartPack, validatePartDefinition } from '../services/partLibrary';
+import { getPartHeight } from '../services/units';
+
+type PartStyle = 'brick' | 'plate' | 'tile';
+
+const CATEGORY_OF: Record<PartStyle, BrickTypeDefinition['category']> = { brick: 'basic', plate: 'plate', tile: 'tile' };
+const MAX_EDITOR_SIZE = 16;
+
+// Heights are stored in bricks; a plate is a third of one (0.33, 0.67, 1, …)
+const platesToHeight = (plates: number) => Math.round(plates / 3 * 100) / 100;
+const heightToPlates = (height: number) => Math.max(1, Math.round(height * 3));
+
+const styleOf = (part?: BrickTypeDefinition): PartStyle =>
+  part?.category === 'tile' ? 'tile' : part?.category === 'plate' ? 'plate' : 'brick';
+
+// Ids for new parts come from the name; never take an id some other pack provides
+const makePartId = (name: string) => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'part';
+  let id = `custom_${slug}`;
+  for (let n = 2; BRICK_CATALOG.some(b => b.id === id); n++) id = `custom_${slug}_${n}`;
+  return id;
+};
+
+interface PartEditorProps {
+  part?: BrickTypeDefinition; // Existing custom part to edit; omitted for a new one
+  onSave: (part: BrickTypeDefinition) => void;
+  onCancel: () => void;
+}
+
+const NumberField = ({ label, value, min, max, onChange }: { label: string, value: number, min: number, max: number, onChange: (n: number) => void }) => (
+  <label className="flex flex-col gap-1 text-xs text-gray-400">
+    {label}
+    <input
+      type="number"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(Math.min(max, Math.max(min, Math.floor(Number(e.target.value) || min))))}
+      className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white outline-none focus:border-blue-500"
+    />
+  </label>
+);
+
+export const PartEditor: React.FC<PartEditorProps> = ({ part, onSave, onCancel }) => {
+  const [name, setName] = useState(part?.name ?? '');
+  const [style, setStyle] = useState<PartStyle>(styleOf(part));
+  const [width, setWidth] = useState(part?.width ?? 2);
+  const [depth, setDepth] = useState(part?.depth ?? 2);
+  const [plates, setPlates] = useState(part ? heightToPlates(part.height) : 3);
+  const [hasStuds, setHasStuds] = useState(part?.hasStuds ?? true);
+
+  const chooseStyle = (next: PartStyle) => {
+    setStyle(next);
+    // Sensible defaults per style; the height stays editable for bricks and plates
+    if (next === 'brick') { setPlates(3); setHasStuds(true); }
+    if (next === 'plate') { setPlates(1); setHasStuds(true); }
+    if (next === 'tile') { setPlates(1); setHasStuds(false); }
+  };
+
+  const draft: BrickTypeDefinition = useMemo(() => ({
+    id: part?.id ?? 'custom_preview',
+    name: name.trim(),
+    category: CATEGORY_OF[style],
+    width,
+    depth,
+    height: platesToHeight(plates),
+    hasStuds: style === 'tile' ? false : hasStuds,
+  }), [part, name, style, width, depth, plates, hasStuds]);
+
+  const issues = validatePartDefinition(draft);
+  // Editing a part that has since been overridden by another pack would write a shadowed copy
+  const shadowed = part && getPartPack(part.id)?.id !== CUSTOM_PACK_ID;
+
+  const save = () => {
+    if (issues.length > 0) return;
+    onSave({ ...draft, id: part?.id ?? makePartId(draft.name) });
+  };
+
+  const h = getPartHeight(draft);
+  const extent = Math.max(width, depth, h);
+
+  return (
+    <div className="flex flex-col md:flex-row gap-4 p-4">
+      {/* Live preview */}
+      <div className="w-full md:w-64 h-64 bg-gray-900 rounded-lg border border-gray-700 overflow-hidden shrink-0">
+        <Canvas camera={{ position: [extent * 1.6 + 1, extent * 1.4 + 1, extent * 1.8 + 1], fov: 35 }}>
+          <ambientLight intensity={1.1} />
+          <directionalLight position={[5, 10, 7]} intensity={1.8} />
+          <BrickGeometry type={draft} colorId="orange" />
+          <OrbitControls target={[0, h / 2, 0]} enablePan={false} />
+        </Canvas>
+      </div>
+
+      {/* Fields */}
+      <div className="flex-1 flex flex-col gap-3">
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          Name
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Brick 1 x 6"
+            className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white text-sm outline-none focus:border-blue-500"
+          />
+        </label>
+
+        <div className="flex gap-1 bg-gray-900 p-1 rounded">
+          {(['brick', 'plate', 'tile'] as PartStyle[]).map(s => (
+            <button
+              key={s}
+              onClick={() => chooseStyle(s)}
+              className={`flex-1 text-xs py-1 rounded capitalize ${style === s ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <NumberField label="Width (studs)" value={width} min={1} max={MAX_EDITOR_SIZE} onChange={setWidth} />
+          <NumberField label="Depth (studs)" value={depth} min={1} max={MAX_EDITOR_SIZE} onChange={setDepth} />
+          <NumberField label="Height (plates)" value={plates} min={1} max={12} onChange={setPlates} />
+        </div>
+
+        <label className={`flex items-center gap-2 text-sm ${style === 'tile' ? 'text-gray-600' : 'text-gray-300'}`}>
+          <input
+            type="checkbox"
+            checked={style === 'tile' ? false : hasStuds}
+            disabled={style === 'tile'}
+            onChange={(e) => setHasStuds(e.target.checked)}
+          />
+          Studs on top
+        </label>
+
+        {name.trim() !== '' && issues.length > 0 && (
+          <ul className="text-xs text-red-300 list-disc pl-4">
+            {issues.map(i => <li key={i.path}>{i.message}</li>)}
+          </ul>
+        )}
+        {shadowed && (
+          <p className="text-xs text-amber-300">Another pack overrides this part; your changes stay hidden until that pack is removed.</p>
+        )}
+
+        <div className="flex justify-end gap-2 mt-auto">
+          <button onClick={onCancel} className="px-3 py-1.5 text-sm rounded bg-gray-700 hover:bg-gray-600 flex items-center gap-1"><X size={14} /> Cancel</button>
+          <button
+            onClick={save}
+            disabled={issues.length > 0}
+            className="px-3 py-1.5 text-sm rounded bg-blue-600 hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 flex items-center gap-1"
+          >
+            <Save size={14} /> {part ? 'Save Part' : 'Add Part'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
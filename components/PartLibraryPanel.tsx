@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Library, X, Upload, Download, Trash2, Plus, Pencil } from 'lucide-react';
+import { BrickTypeDefinition, PlacedBrick } from '../types';
+import { PartEditor } from './PartEditor';
+import { PartThumbnail } from './PartThumbnail';
+import {
+  PartLibrary, PartLibraryError, BUILTIN_LIBRARY, CUSTOM_PACK_ID, parsePartLibrary, serializePartLibrary,
+  formatLibraryIssues, upsertCustomPart, removeCustomPart
+} from '../services/partLibrary';
+
+interface PartLibraryPanelProps {
+  packs: PartLibrary[];
+  bricks: PlacedBrick[];
+  onChangePacks: (packs: PartLibrary[]) => void;
+  onDownload: (content: string, fileName: string, mimeType: string) => void;
+  onClose: () => void;
+}
+
+export const PartLibraryPanel: React.FC<PartLibraryPanelProps> = ({ packs, bricks, onChangePacks, onDownload, onClose }) => {
+  // undefined: list view, null: new part, otherwise the part being edited
+  const [editing, setEditing] = useState<BrickTypeDefinition | null | undefined>(undefined);
+
+  const customPack = packs.find(p => p.id === CUSTOM_PACK_ID);
+  const usageOf = (typeIds: Set<string>) => bricks.filter(b => typeIds.has(b.typeId)).length;
+
+  const importPack = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const { library, issues } = parsePartLibrary(reader.result as string);
+        if (library.id === BUILTIN_LIBRARY.id) {
+          alert('The built-in catalog cannot be replaced.');
+          return;
+        }
+        if (issues.length > 0 && !confirm(
+          `${file.name}: ${issues.length} problem${issues.length === 1 ? '' : 's'} found.\n\n${formatLibraryIssues(issues)}\n\n` +
+          `Install the ${library.parts.length} valid parts anyway?`
+        )) return;
+        const existing = packs.find(p => p.id === library.id);
+        if (existing && !confirm(`Replace "${existing.name}" v${existing.version} with v${library.version}?`)) return;
+        onChangePacks(existing ? packs.map(p => p === existing ? library : p) : [...packs, library]);
+      } catch (err) {
+        alert(err instanceof PartLibraryError ? err.message : 'Could not read the part library.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const removePack = (pack: PartLibrary) => {
+    const used = usageOf(new Set(pack.parts.map(p => p.id)));
+    const warning = used > 0
+      ? `${used} brick${used === 1 ? '' : 's'} in the scene use parts from "${pack.name}" and will disappear.\n\nRemove the pack anyway?`
+      : `Remove "${pack.name}"?`;
+    if (confirm(warning)) onChangePacks(packs.filter(p => p !== pack));
+  };
+
+  const deletePart = (part: BrickTypeDefinition) => {
+    const used = usageOf(new Set([part.id]));
+    if (used > 0 && !confirm(`${used} brick${used === 1 ? '' : 's'} in the scene use "${part.name}". Delete it anyway?`)) return;
+    onChangePacks(removeCustomPart(packs, part.id));
+  };
+
+  const savePart = (part: BrickTypeDefinition) => {
+    onChangePacks(upsertCustomPart(packs, part));
+    setEditing(undefined);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl max-w-2xl w-full max-h-[80vh] border border-gray-700 flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+          <h2 className="text-xl font-bold flex items-center gap-2">
+            <Library className="text-cyan-400" /> {editing === undefined ? 'Part Library' : editing ? `Edit ${editing.name}` : 'New Part'}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded-lg text-gray-400" title="Close"><X size={18} /></button>
+        </div>
+
+        {editing !== undefined ? (
+          <PartEditor part={editing ?? undefined} onSave={savePart} onCancel={() => setEditing(undefined)} />
+        ) : (
+          <div className="flex-1 overflow-y-auto custom-scrollbar">
+            {/* Packs, lowest priority first; later packs override parts with the same id */}
+            <div className="p-4 border-b border-gray-700">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Packs</h3>
+                <label className="px-3 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 cursor-pointer flex items-center gap-1">
+                  <Upload size={14} /> Install Pack
+                  <input type="file" accept=".json" onChange={importPack} className="hidden" />
+                </label>
+              </div>
+              {[BUILTIN_LIBRARY, ...packs].map(pack => (
+                <div key={pack.id} className="flex items-center gap-2 py-1.5 text-sm border-t border-gray-700/50 first:border-t-0">
+                  <span className="flex-1 truncate">{pack.name}</span>
+                  <span className="text-gray-500 text-xs font-mono">{pack.id} v{pack.version}</span>
+                  <span className="text-gray-400 text-xs w-16 text-right">{pack.parts.length} parts</span>
+                  <button
+                    onClick={() => onDownload(serializePartLibrary(pack), `${pack.id}.parts.json`, 'application/json')}
+                    className="p-1 hover:bg-gray-700 rounded text-green-400"
+                    title="Export pack"
+                  >
+                    <Download size={14} />
+                  </button>
+                  {pack === BUILTIN_LIBRARY ? <span className="w-[22px]" /> : (
+                    <button onClick={() => removePack(pack)} className="p-1 hover:bg-red-900/50 rounded text-red-400" title="Remove pack"><Trash2 size={14} /></button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Parts made in the editor */}
+            <div className="p-4">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">My Parts</h3>
+                <button onClick={() => setEditing(null)} className="px-3 py-1 text-xs rounded bg-blue-600 hover:bg-blue-500 flex items-center gap-1">
+                  <Plus size={14} /> New Part
+                </button>
+              </div>
+              {(customPack?.parts.length ?? 0) === 0 && (
+                <p className="text-gray-500 text-sm text-center py-6">No custom parts yet. Sizes not in the catalog can be added here.</p>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                {customPack?.parts.map(part => (
+                  <div key={part.id} className="flex items-center gap-2 bg-gray-900 rounded p-2">
+                    <PartThumbnail type={part} colorId="orange" className="w-10 h-10" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">{part.name}</p>
+                      <p className="text-xs text-gray-500 font-mono truncate">{part.width}x{part.depth} · {part.category}</p>
+                    </div>
+                    <button onClick={() => setEditing(part)} className="p-1 hover:bg-gray-700 rounded text-gray-300" title="Edit part"><Pencil size={14} /></button>
+                    <button onClick={() => deletePart(part)} className="p-1 hover:bg-red-900/50 rounded text-red-400" title="Delete part"><Trash2 size={14} /></button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { createRoot, flushSync, ReconcilerRoot } from '@react-three/fiber';
+import * as THREE from 'three';
+import { BrickTypeDefinition } from '../types';
+import { STUD_SIZE } from '../constants';
+import { getPartHeight } from '../services/units';
+import { BrickGeometry } from './BrickGeometry';
+
+// Part previews are rendered once into a shared offscreen canvas and cached as data
+// URLs, so lists of parts cost images instead of one WebGL context per tile.
+
+const THUMBNAIL_SIZE = 128;
+
+let rootPromise: Promise<ReconcilerRoot<HTMLCanvasElement>> | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+const cache = new Map<string, Promise<string>>();
+
+const getRoot = () => {
+  if (!rootPromise) {
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_SIZE;
+    canvas.height = THUMBNAIL_SIZE;
+    const root = createRoot(canvas);
+    rootPromise = root.configure({
+      gl: { preserveDrawingBuffer: true, alpha: true, antialias: true },
+      size: { width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, top: 0, left: 0 },
+      dpr: 1,
+      frameloop: 'never',
+      camera: { fov: 30, near: 0.1, far: 200 },
+    }).then(() => root);
+  }
+  return rootPromise;
+};
+
+const ThumbnailScene = ({ type, colorId }: { type: BrickTypeDefinition, colorId: string }) => (
+  <>
+    <ambientLight intensity={1.1} />
+    <directionalLight position={[5, 10, 7]} intensity={1.8} />
+    <BrickGeometry type={type} colorId={colorId} />
+  </>
+);
+
+const renderThumbnail = async (type: BrickTypeDefinition, colorId: string): Promise<string> => {
+  const root = await getRoot();
+  const store = flushSync(() => root.render(<ThumbnailScene type={type} colorId={colorId} />));
+  const { gl, scene, camera } = store.getState();
+
+  // Frame the part from a fixed three-quarter angle, far enough for its largest side
+  const h = getPartHeight(type);
+  const extent = Math.max(type.width * STUD_SIZE, type.depth * STUD_SIZE, h);
+  const distance = extent * 2.6 + 1;
+  camera.position.set(distance * 0.7, h / 2 + distance * 0.6, distance * 0.9);
+  camera.lookAt(new THREE.Vector3(0, h / 2, 0));
+  camera.updateProjectionMatrix();
+
+  gl.setClearColor(0x000000, 0);
+  gl.render(scene, camera);
+  return gl.domElement.toDataURL('image/png');
+};
+
+export const renderPartThumbnail = (type: BrickTypeDefinition, colorId: string): Promise<string> => {
+  const key = `${type.id}|${type.width}x${type.depth}x${type.height}|${type.hasStuds}|${colorId}`;
+  let pending = cache.get(key);
+  if (!pending) {
+    // One shared root, so renders must not interleave
+    pending = queue.then(() => renderThumbnail(type, colorId));
+    queue = pending.catch(() => undefined);
+    cache.set(key, pending);
+  }
+  return pending;
+};
+
+interface PartThumbnailProps {
+  type: BrickTypeDefinition;
+  colorId: string;
+  className?: string;
+}
+
+export const PartThumbnail: React.FC<PartThumbnailProps> = ({ type, colorId, className = 'w-16 h-16' }) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    renderPartThumbnail(type, colorId)
+      .then(url => { if (!cancelled) setSrc(url); })
+      .catch(err => console.error("Thumbnail render failed", err));
+    return () => { cancelled = true; };
+  }, [type, colorId]);
+
+  if (!src) return <div className={`${className} rounded bg-gray-700/50 animate-pulse`} />;
+  return <img src={src} alt={type.name} className={`${className} object-contain`} draggable={false} />;
+};
@@ -0,0 +1,121 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClipboardList, X, FileSpreadsheet, FileCode } from 'lucide-react';
+import { PlacedBrick } from '../types';
+import {
+  Inventory, buildPartsList, getShortfall, partsListToCsv, partsListToBrickLinkXml, loadInventory, saveInventory
+} from '../services/partsList';
+
+interface PartsListPanelProps {
+  bricks: PlacedBrick[];
+  onDownload: (content: string, fileName: string, mimeType: string) => void;
+  onClose: () => void;
+}
+
+export const PartsListPanel: React.FC<PartsListPanelProps> = ({ bricks, onDownload, onClose }) => {
+  const list = useMemo(() => buildPartsList(bricks), [bricks]);
+  const [inventory, setInventory] = useState<Inventory>(loadInventory);
+  const [onlyShort, setOnlyShort] = useState(false);
+
+  useEffect(() => saveInventory(inventory), [inventory]);
+
+  const totalShort = list.rows.reduce((sum, row) => sum + getShortfall(row, inventory), 0);
+  const visibleRows = onlyShort ? list.rows.filter(row => getShortfall(row, inventory) > 0) : list.rows;
+
+  const setOwned = (key: string, value: string) => {
+    const quantity = Math.max(0, Math.floor(Number(value) || 0));
+    setInventory(prev => ({ ...prev, [key]: quantity }));
+  };
+
+  const exportXml = () => {
+    const { xml, skipped } = partsListToBrickLinkXml(list, inventory, onlyShort);
+    onDownload(xml, 'kensenich_wanted_list.xml', 'text/xml');
+    if (skipped.length > 0) {
+      alert(`Not in the wanted list (no BrickLink mapping):\n${skipped.map(r => `${r.partName} / ${r.colorName}`).join('\n')}`);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl max-w-2xl w-full max-h-[80vh] border border-gray-700 flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+          <h2 className="text-xl font-bold flex items-center gap-2"><ClipboardList className="text-green-400" /> Parts List</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded-lg text-gray-400" title="Close"><X size={18} /></button>
+        </div>
+
+        {/* Totals */}
+        <div className="px-4 py-3 border-b border-gray-700 flex flex-wrap gap-2 text-xs">
+          <span className="bg-gray-900 rounded px-2 py-1 font-semibold">{list.total} parts</span>
+          {Object.entries(list.totalsByCategory).map(([category, count]) => (
+            <span key={category} className="bg-gray-900 rounded px-2 py-1 text-gray-300 capitalize">{category}: {count}</span>
+          ))}
+          {totalShort > 0 && (
+            <span className="bg-red-900/60 border border-red-700 rounded px-2 py-1 text-red-200 font-semibold">{totalShort} short</span>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {list.rows.length === 0 && <p className="text-gray-500 text-sm text-center py-12">The scene is empty.</p>}
+          <table className="w-full text-sm">
+            {list.rows.length > 0 && (
+              <thead className="text-xs text-gray-500 uppercase sticky top-0 bg-gray-800">
+                <tr>
+                  <th className="text-left font-semibold px-4 py-2">Part</th>
+                  <th className="text-left font-semibold px-2 py-2">Color</th>
+                  <th className="text-right font-semibold px-2 py-2">Need</th>
+                  <th className="text-right font-semibold px-2 py-2">My Bins</th>
+                  <th className="text-right font-semibold px-4 py-2">Short</th>
+                </tr>
+              </thead>
+            )}
+            <tbody>
+              {visibleRows.map(row => {
+                const short = getShortfall(row, inventory);
+                return (
+                  <tr key={row.key} className={`border-t border-gray-700/50 ${short > 0 ? 'bg-red-950/40' : ''}`}>
+                    <td className="px-4 py-1.5">
+                      {row.partName}
+                      <span className="text-gray-500 font-mono text-xs ml-2">{row.typeId}</span>
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <span className="inline-flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-full border border-gray-600" style={{ backgroundColor: row.hex }} />
+                        {row.colorName}
+                      </span>
+                    </td>
+                    <td className="px-2 py-1.5 text-right font-mono">{row.quantity}</td>
+                    <td className="px-2 py-1.5 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        value={inventory[row.key] || 0}
+                        onChange={(e) => setOwned(row.key, e.target.value)}
+                        className="w-16 bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-right font-mono outline-none focus:border-blue-500"
+                      />
+                    </td>
+                    <td className={`px-4 py-1.5 text-right font-mono ${short > 0 ? 'text-red-400 font-bold' : 'text-gray-600'}`}>{short}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-gray-400 mr-auto">
+            <input type="checkbox" checked={onlyShort} onChange={(e) => setOnlyShort(e.target.checked)} />
+            Only parts I'm short of
+          </label>
+          <button
+            onClick={() => onDownload(partsListToCsv(list, inventory), 'kensenich_parts_list.csv', 'text/csv')}
+            className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-sm flex items-center gap-1"
+          >
+            <FileSpreadsheet size={16} /> CSV
+          </button>
+          <button onClick={exportXml} className="px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 text-sm flex items-center gap-1">
+            <FileCode size={16} /> BrickLink XML
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,296 @@
+import React, { createRef, useEffect, useMemo, useRef, useState, RefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Physics, useBox, useConvexPolyhedron, usePlane, useLockConstraint, useHingeConstraint } from '@react-three/cannon';
+import * as THREE from 'three';
+import { PlacedBrick, BrickTypeDefinition } from '../types';
+import { BRICK_CATALOG, STUD_SIZE, PART_DENSITY, MOTOR_MAX_FORCE } from '../constants';
+import { BrickGeometry } from './BrickGeometry';
+import { buildConnectionGraph, GROUND_ID } from '../services/connectionGraph';
+import { findTechnicEngagements } from '../services/connectionPoints';
+import { solveDriveTrain } from '../services/driveTrain';
+import { getShapePolyhedron, isBoxShape, isRodShape } from '../services/partShapes';
+import { getPartHeight } from '../services/units';
+
+type BodyRef = RefObject<THREE.Object3D | null>;
+
+// Collision groups: rods run through the holes of solid parts, so they only touch the floor
+const GROUP_FLOOR = 1;
+const GROUP_SOLID = 2;
+const GROUP_ROD = 4;
+const SOLID_FILTER = { collisionFilterGroup: GROUP_SOLID, collisionFilterMask: GROUP_FLOOR | GROUP_SOLID };
+
+// Mass scales with the solid volume of the part instead of being constant per brick
+export const getPartMass = (def: BrickTypeDefinition) =>
+  def.width * STUD_SIZE * def.depth * STUD_SIZE * getPartHeight(def) * PART_DENSITY;
+
+const PhysicsFloor: React.FC<{ bodyRef: BodyRef }> = ({ bodyRef }) => {
+  usePlane(() => ({
+    rotation: [-Math.PI / 2, 0, 0],
+    position: [0, -0.01, 0], // Slightly below visual ground
+    type: 'Static',
+    material: { friction: 0.5, restitution: 0.1 },
+    collisionFilterGroup: GROUP_FLOOR
+  }), bodyRef);
+  return (
+    <mesh ref={bodyRef as any} visible={false}>
+      <planeGeometry args={[100, 100]} />
+    </mesh>
+  );
+};
+
+const BoxBrick: React.FC<{ brick: PlacedBrick, bodyRef: BodyRef }> = ({ brick, bodyRef }) => {
+  const def = BRICK_CATALOG.find(b => b.id === brick.typeId);
+
+  // Calculate dimensions for collider
+  const w = def ? def.width * STUD_SIZE : 1;
+  const d = def ? def.depth * STUD_SIZE : 1;
+  const h = def ? getPartHeight(def) : 1;
+
+  // Swap W/D if rotated
+  const isRotated = brick.rotation % 2 !== 0;
+  const finalW = isRotated ? d : w;
+  const finalD = isRotated ? w : d;
+
+  useBox(() => ({
+    mass: def ? getPartMass(def) : 1, // Dynamic body
+    position: [brick.position[0], brick.position[1] + h/2, brick.position[2]], // Physics body center is usually center of mass
+    rotation: [0, brick.rotation * Math.PI / 2, 0],
+    args: [finalW - 0.02, h, finalD - 0.02], // Slightly smaller to prevent jitter
+    material: { friction: 0.6, restitution: 0.2 },
+    ...SOLID_FILTER
+  }), bodyRef);
+
+  if (!def) return null;
+
+  return (
+    <group ref={bodyRef as any}>
+        {/* We offset visual geometry because BrickGeometry origin is bottom-center,
+            but Cannon body origin is center-center.
+            So we move visual DOWN by h/2 inside the physics body group */}
+        <group position={[0, -h/2, 0]}>
+             <BrickGeometry type={def} colorId={brick.colorId} />
+        </group>
+    </group>
+  );
+};
+
+// Slopes and other shaped parts collide with the same convex solid they are drawn with
+const ShapedBrick: React.FC<{ brick: PlacedBrick, def: BrickTypeDefinition, bodyRef: BodyRef }> = ({ brick, def, bodyRef }) => {
+  const h = getPartHeight(def);
+
+  // Cannon body origin is center-center, the shape's is bottom-center
+  const args = useMemo(() => {
+    const solid = getShapePolyhedron(def, 0.02)!;
+    const vertices = solid.vertices.map(([x, y, z]) => [x, y - h / 2, z] as [number, number, number]);
+    return [vertices, solid.faces] as [typeof vertices, number[][]];
+  }, [def, h]);
+
+  useConvexPolyhedron(() => ({
+    mass: getPartMass(def),
+    position: [brick.position[0], brick.position[1] + h/2, brick.position[2]],
+    rotation: [0, brick.rotation * Math.PI / 2, 0],
+    args,
+    material: { friction: 0.6, restitution: 0.2 },
+    ...SOLID_FILTER
+  }), bodyRef);
+
+  return (
+    <group ref={bodyRef as any}>
+        <group position={[0, -h/2, 0]}>
+             <BrickGeometry type={def} colorId={brick.colorId} />
+        </group>
+    </group>
+  );
+};
+
+// Pins, axles and bushes: a thin box along the rod axis, held in place by their joints
+const RodBrick: React.FC<{ brick: PlacedBrick, def: BrickTypeDefinition, bodyRef: BodyRef }> = ({ brick, def, bodyRef }) => {
+  const h = getPartHeight(def);
+  const thickness = def.shape?.kind === 'bush' ? 0.76 : 0.48;
+
+  useBox(() => ({
+    mass: getPartMass(def) * 0.2, // Mostly air around the rod
+    position: [brick.position[0], brick.position[1] + h/2, brick.position[2]],
+    rotation: [0, brick.rotation * Math.PI / 2, 0],
+    args: [def.width * STUD_SIZE - 0.02, thickness, thickness],
+    material: { friction: 0.6, restitution: 0.2 },
+    collisionFilterGroup: GROUP_ROD,
+    collisionFilterMask: GROUP_FLOOR
+  }), bodyRef);
+
+  return (
+    <group ref={bodyRef as any}>
+        <group position={[0, -h/2, 0]}>
+             <BrickGeometry type={def} colorId={brick.colorId} />
+        </group>
+    </group>
+  );
+};
+
+const PhysicsBrick: React.FC<{ brick: PlacedBrick, bodyRef: BodyRef }> = ({ brick, bodyRef }) => {
+  const def = BRICK_CATALOG.find(b => b.id === brick.typeId);
+  if (def && isRodShape(def)) return <RodBrick brick={brick} def={def} bodyRef={bodyRef} />;
+  if (def && !isBoxShape(def)) return <ShapedBrick brick={brick} def={def} bodyRef={bodyRef} />;
+  return <BoxBrick brick={brick} bodyRef={bodyRef} />;
+};
+
+// How far two clutched bodies may drift from where they were joined before the
+// connection counts as broken (world units and radians)
+const CLUTCH_BREAK_DISTANCE = 0.15;
+const CLUTCH_BREAK_ANGLE = 0.2;
+
+// Scratch values for the per-frame drift check
+const driftOffset = new THREE.Vector3();
+const inverseA = new THREE.Quaternion();
+const driftTurn = new THREE.Quaternion();
+
+// Where bodyB sits relative to bodyA, written into the given position and rotation
+const relativePose = (a: THREE.Object3D, b: THREE.Object3D, position: THREE.Vector3, rotation: THREE.Quaternion) => {
+  inverseA.copy(a.quaternion).invert();
+  position.copy(b.position).sub(a.position).applyQuaternion(inverseA);
+  rotation.copy(inverseA).multiply(b.quaternion);
+};
+
+type ClutchJointProps = { bodyA: BodyRef, bodyB: BodyRef, maxForce: number };
+
+const ClutchLock: React.FC<ClutchJointProps & { onBreak: () => void }> = ({ bodyA, bodyB, maxForce, onBreak }) => {
+  useLockConstraint(bodyA, bodyB, { maxForce }, [maxForce]);
+  const rest = useRef<{ position: THREE.Vector3, rotation: THREE.Quaternion } | null>(null);
+
+  useFrame(() => {
+    const a = bodyA.current;
+    const b = bodyB.current;
+    if (!a || !b) return;
+    if (!rest.current) {
+      rest.current = { position: new THREE.Vector3(), rotation: new THREE.Quaternion() };
+      relativePose(a, b, rest.current.position, rest.current.rotation);
+      return;
+    }
+    relativePose(a, b, driftOffset, driftTurn);
+    if (driftOffset.distanceTo(rest.current.position) > CLUTCH_BREAK_DISTANCE || driftTurn.angleTo(rest.current.rotation) > CLUTCH_BREAK_ANGLE) {
+      onBreak();
+    }
+  });
+  return null;
+};
+
+// Holds two bodies together like engaged studs. The lock can only push back with
+// maxForce, so an overloaded connection stretches instead of holding. Cannon does not
+// report constraint forces from its worker, so the stretch itself is the signal: past
+// the break tolerance the lock is removed and that section comes off.
+const ClutchJoint: React.FC<ClutchJointProps> = (props) => {
+  const [broken, setBroken] = useState(false);
+  return broken ? null : <ClutchLock {...props} onBreak={() => setBroken(true)} />;
+};
+
+type Triplet = [number, number, number];
+
+// An axle turning in a beam's pin hole or a motor's output. When the drive train
+// reaches the axle, the hinge motor spins it at the solved speed.
+const AxleHinge: React.FC<{
+  frame: BodyRef, axle: BodyRef, pivotA: Triplet, pivotB: Triplet, axisA: Triplet, axisB: Triplet, speed: number | null
+}> = ({ frame, axle, pivotA, pivotB, axisA, axisB, speed }) => {
+  const [, , api] = useHingeConstraint(frame, axle, { pivotA, pivotB, axisA, axisB, collideConnected: false });
+  useEffect(() => {
+    if (speed === null) {
+      api.disableMotor();
+      return;
+    }
+    api.enableMotor();
+    api.setMotorMaxForce(MOTOR_MAX_FORCE);
+    api.setMotorSpeed(speed);
+  }, [api, speed]);
+  return null;
+};
+
+interface PhysicsSceneProps {
+  bricks: PlacedBrick[];
+  clutchStrength: number; // Force per engaged stud
+}
+
+export const PhysicsScene: React.FC<PhysicsSceneProps> = ({ bricks, clutchStrength }) => {
+  const floorRef = useMemo<BodyRef>(() => createRef<THREE.Object3D>(), []);
+  const bodyRefs = useMemo(
+    () => new Map<string, BodyRef>(bricks.map(b => [b.id, createRef<THREE.Object3D>()])),
+    [bricks]
+  );
+
+  const graph = useMemo(() => buildConnectionGraph(bricks), [bricks]);
+
+  // Axles seated in pin holes or motor outputs turn on hinges instead of locking
+  const hinges = useMemo(() => {
+    const byId = new Map(bricks.map(b => [b.id, b]));
+    const driveTrain = solveDriveTrain(bricks, graph.technicIndex);
+    const list = new Map<string, React.ComponentProps<typeof AxleHinge>>();
+
+    for (const { insert, hole } of findTechnicEngagements(graph.technicIndex)) {
+      const axle = byId.get(insert.brickId)!;
+      const frame = byId.get(hole.brickId)!;
+      const axleDef = BRICK_CATALOG.find(b => b.id === axle.typeId)!;
+      const frameDef = BRICK_CATALOG.find(b => b.id === frame.typeId)!;
+      const free = hole.kind === 'pin-hole' || frameDef.motorRpm !== undefined;
+      const key = [axle.id, frame.id].sort().join('|');
+      if (insert.kind !== 'axle' || !free || list.has(key)) continue;
+
+      // Pivots are body-local around the body center; the axle's axis is flipped to match the hole's
+      const frameH = getPartHeight(frameDef);
+      const axleH = getPartHeight(axleDef);
+      const [hx, hy, hz] = hole.local.position;
+      const [ax, ay, az] = insert.local.position;
+      const sameWay = hole.direction[0] * insert.direction[0] + hole.direction[1] * insert.direction[1] + hole.direction[2] * insert.direction[2] > 0;
+      const alongLocal = Math.sign(insert.local.direction[0]) || 1;
+
+      // Cannon's hinge motor drives the frame's spin minus the axle's, so the target is negated
+      const rotor = driveTrain.rotors[driveTrain.rotorOf.get(axle.id)!];
+      const axisSign = hole.direction[0] * rotor.axis[0] + hole.direction[1] * rotor.axis[1] + hole.direction[2] * rotor.axis[2];
+      const speed = rotor.rpm === null ? null : -rotor.rpm * axisSign * Math.PI / 30;
+
+      list.set(key, {
+        frame: bodyRefs.get(frame.id)!,
+        axle: bodyRefs.get(axle.id)!,
+        pivotA: [hx, hy - frameH / 2, hz],
+        pivotB: [ax, ay - axleH / 2, az],
+        axisA: hole.local.direction,
+        axisB: [(sameWay ? 1 : -1) * alongLocal, 0, 0],
+        speed,
+      });
+    }
+    return list;
+  }, [bricks, graph, bodyRefs]);
+
+  // One joint per clutched pair, strength proportional to the studs engaged
+  const joints = useMemo(() => {
+    const list: { key: string, a: string, b: string, studs: number }[] = [];
+    graph.edges.forEach((neighbours, id) => {
+      neighbours.forEach((studs, otherId) => {
+        // Each brick pair appears twice in the graph; keep one direction
+        if (otherId !== GROUND_ID && otherId < id) return;
+        if (hinges.has([id, otherId].sort().join('|'))) return;
+        list.push({ key: `${id}|${otherId}`, a: id, b: otherId, studs });
+      });
+    });
+    return list;
+  }, [graph, hinges]);
+
+  return (
+    <Physics gravity={[0, -9.81, 0]} iterations={20} tolerance={0.001}>
+      <PhysicsFloor bodyRef={floorRef} />
+      {bricks.map((brick: PlacedBrick) => (
+        <PhysicsBrick key={`sim-${brick.id}`} brick={brick} bodyRef={bodyRefs.get(brick.id)!} />
+      ))}
+      {joints.map(joint => (
+        <ClutchJoint
+          key={`joint-${joint.key}`}
+          bodyA={bodyRefs.get(joint.a)!}
+          bodyB={joint.b === GROUND_ID ? floorRef : bodyRefs.get(joint.b)!}
+          maxForce={joint.studs * clutchStrength}
+        />
+      ))}
+      {[...hinges.entries()].map(([key, hinge]) => (
+        <AxleHinge key={`hinge-${key}`} {...hinge} />
+      ))}
+      {/* Helper to show where floor is */}
+      <gridHelper args={[50, 50, 0x444444, 0x111111]} position={[0, 0, 0]} />
+    </Physics>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { FolderOpen, Copy, Trash2, Pencil, X, Plus, Check } from 'lucide-react';
+import { ProjectSummary } from '../services/projectStore';
+
+interface ProjectBrowserProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onSaveAsNew: () => void;
+  onClose: () => void;
+}
+
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({
+  projects, currentProjectId, onOpen, onRename, onDuplicate, onDelete, onSaveAsNew, onClose
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[80vh] border border-gray-700 flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-gray-700 flex items-center justify-between">
+          <h2 className="text-xl font-bold flex items-center gap-2"><FolderOpen className="text-blue-400" /> My Builds</h2>
+          <div className="flex gap-2">
+            <button onClick={onSaveAsNew} className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm font-semibold flex items-center gap-1">
+              <Plus size={16} /> Save current as new
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-gray-700 rounded-lg text-gray-400" title="Close"><X size={18} /></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4">
+          {projects.length === 0 && (
+            <p className="text-gray-500 text-sm text-center py-12">No saved builds yet. Use Save to store the current scene.</p>
+          )}
+          <div className="grid grid-cols-3 gap-4">
+            {projects.map(project => (
+              <div
+                key={project.id}
+                className={`rounded-lg border overflow-hidden bg-gray-900 ${project.id === currentProjectId ? 'border-blue-500' : 'border-gray-700'}`}
+              >
+                <button onClick={() => onOpen(project.id)} className="block w-full aspect-[3/2] bg-gray-950" title="Open">
+                  {project.thumbnail
+                    ? <img src={project.thumbnail} alt={project.name} className="w-full h-full object-cover" />
+                    : <span className="text-xs text-gray-600">No preview</span>}
+                </button>
+                <div className="p-2">
+                  {editingId === project.id ? (
+                    <div className="flex gap-1">
+                      <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded px-2 py-0.5 text-sm outline-none focus:border-blue-500"
+                      />
+                      <button onClick={commitRename} className="p-1 hover:bg-gray-700 rounded text-green-400" title="Save name"><Check size={14} /></button>
+                    </div>
+                  ) : (
+                    <p className="text-sm font-semibold truncate" title={project.name}>{project.name}</p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {project.brickCount} bricks · {new Date(project.modified).toLocaleString()}
+                  </p>
+                  <div className="flex gap-1 mt-2 text-gray-400">
+                    <button
+                      onClick={() => { setEditingId(project.id); setDraftName(project.name); }}
+                      className="p-1.5 hover:bg-gray-700 rounded" title="Rename"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => onDuplicate(project.id)} className="p-1.5 hover:bg-gray-700 rounded" title="Duplicate"><Copy size={14} /></button>
+                    <button onClick={() => onDelete(project.id)} className="p-1.5 hover:bg-red-900/50 text-red-400 rounded ml-auto" title="Delete"><Trash2 size={14} /></button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
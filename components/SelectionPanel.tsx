@@ -0,0 +1,48 @@
+import React from 'react';
+import {
+  RotateCcw, RotateCw, Copy, Trash2, PaintBucket, Link2, X,
+  ArrowLeft, ArrowRight, ArrowUp, ArrowDown, ChevronsUp, ChevronsDown
+} from 'lucide-react';
+import { StudOffset } from '../services/groupTransforms';
+
+interface SelectionPanelProps {
+  count: number;
+  onMove: (offset: StudOffset) => void;
+  onRotate: (steps: number) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onRecolor: () => void;
+  onSelectConnected: () => void;
+  onClear: () => void;
+}
+
+const PanelBtn = ({ onClick, title, children, className = '' }: { onClick: () => void, title: string, children: React.ReactNode, className?: string }) => (
+  <button onClick={onClick} className={`p-2 hover:bg-gray-700 rounded transition-colors ${className}`} title={title}>
+    {children}
+  </button>
+);
+
+export const SelectionPanel: React.FC<SelectionPanelProps> = ({
+  count, onMove, onRotate, onDuplicate, onDelete, onRecolor, onSelectConnected, onClear
+}) => (
+  <div className="absolute bottom-24 left-1/2 -translate-x-1/2 bg-gray-800/90 backdrop-blur px-3 py-2 rounded-lg border border-blue-700 shadow-2xl flex items-center gap-1 text-gray-300">
+    <span className="text-xs font-semibold text-blue-300 px-2 whitespace-nowrap">{count} selected</span>
+    <div className="w-px bg-gray-600 h-6 mx-1"></div>
+    {/* Move in whole studs (arrow keys) and plate layers (PageUp/PageDown) */}
+    <PanelBtn onClick={() => onMove([-1, 0, 0])} title="Move -X (←)"><ArrowLeft size={16} /></PanelBtn>
+    <PanelBtn onClick={() => onMove([1, 0, 0])} title="Move +X (→)"><ArrowRight size={16} /></PanelBtn>
+    <PanelBtn onClick={() => onMove([0, 0, -1])} title="Move -Z (↑)"><ArrowUp size={16} /></PanelBtn>
+    <PanelBtn onClick={() => onMove([0, 0, 1])} title="Move +Z (↓)"><ArrowDown size={16} /></PanelBtn>
+    <PanelBtn onClick={() => onMove([0, 1, 0])} title="Raise one plate (PageUp)"><ChevronsUp size={16} /></PanelBtn>
+    <PanelBtn onClick={() => onMove([0, -1, 0])} title="Lower one plate (PageDown)"><ChevronsDown size={16} /></PanelBtn>
+    <div className="w-px bg-gray-600 h-6 mx-1"></div>
+    <PanelBtn onClick={() => onRotate(-1)} title="Rotate -90°"><RotateCcw size={16} /></PanelBtn>
+    <PanelBtn onClick={() => onRotate(1)} title="Rotate +90°"><RotateCw size={16} /></PanelBtn>
+    <PanelBtn onClick={onDuplicate} title="Duplicate (Ctrl+D)"><Copy size={16} /></PanelBtn>
+    <PanelBtn onClick={onRecolor} title="Recolor with selected color"><PaintBucket size={16} /></PanelBtn>
+    <PanelBtn onClick={onSelectConnected} title="Select connected"><Link2 size={16} /></PanelBtn>
+    <PanelBtn onClick={onDelete} title="Delete (Del)" className="text-red-400 hover:bg-red-900/50"><Trash2 size={16} /></PanelBtn>
+    <div className="w-px bg-gray-600 h-6 mx-1"></div>
+    <PanelBtn onClick={onClear} title="Clear selection (Esc)"><X size={16} /></PanelBtn>
+  </div>
+);
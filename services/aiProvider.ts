@@ -0,0 +1,76 @@
+import { GeneratedPart } from './buildRepair';
+import { AiChatTurn, BuildEdit } from './buildEdit';
+
+// A backend that turns prompts into parts. Results are raw: generated builds go through
+// repairGeneratedBuild and edits through applyBuildEdit before they reach the scene.
+export interface AiProvider {
+  id: string;
+  name: string;
+  description: string;
+  isConfigured: () => boolean; // False when it cannot run yet, e.g. without an API key
+  generateBuild: (prompt: string, signal: AbortSignal) => Promise<GeneratedPart[]>;
+  // Providers without it can only create new builds
+  editBuild?: (prompt: string, sceneText: string, chat: AiChatTurn[], signal: AbortSignal) => Promise<BuildEdit>;
+}
+
+// missing-key: no usable API key (absent or rejected); quota: rate or usage limit hit;
+// schema: the answer did not have the expected shape; unsupported: the provider cannot
+// handle the prompt; failed: anything else, e.g. the network
+export type AiErrorKind = 'missing-key' | 'quota' | 'schema' | 'timeout' | 'cancelled' | 'unsupported' | 'failed';
+
+export class AiProviderError extends Error {
+  kind: AiErrorKind;
+
+  constructor(kind: AiErrorKind, message: string) {
+    super(message);
+    this.name = 'AiProviderError';
+    this.kind = kind;
+  }
+}
+
+// Longest a provider call may take before it is abandoned
+export const AI_TIMEOUT_MS = 60000;
+
+// Runs a provider call that ends when the caller cancels or the deadline passes, whichever
+// comes first. The provider gets a signal for both; the call is also abandoned when the
+// provider ignores it, so a hung request never keeps the UI waiting.
+export const withDeadline = async <T>(
+  signal: AbortSignal,
+  timeoutMs: number,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  const cancel = () => controller.abort(new AiProviderError('cancelled', 'Request cancelled'));
+  const timer = setTimeout(
+    () => controller.abort(new AiProviderError('timeout', `No answer after ${Math.round(timeoutMs / 1000)} seconds`)),
+    timeoutMs
+  );
+  if (signal.aborted) cancel();
+  else signal.addEventListener('abort', cancel);
+
+  const aborted = new Promise<never>((_, reject) => {
+    if (controller.signal.aborted) reject(controller.signal.reason);
+    else controller.signal.addEventListener('abort', () => reject(controller.signal.reason));
+  });
+  try {
+    return await Promise.race([run(controller.signal), aborted]);
+  } catch (error) {
+    // Providers may reject with their own abort error; report why the call was stopped
+    throw controller.signal.aborted ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', cancel);
+  }
+};
+
+// Message for the user, or null when there is nothing to tell (the user cancelled)
+export const describeAiError = (error: unknown): string | null => {
+  if (!(error instanceof AiProviderError)) return 'Something went wrong while talking to the AI.';
+  switch (error.kind) {
+    case 'cancelled': return null;
+    case 'missing-key': return `${error.message} Add a key, or switch to the offline builder.`;
+    case 'quota': return `${error.message} Wait a moment, or switch to the offline builder.`;
+    case 'timeout': return `${error.message}. Please try again.`;
+    default: return error.message;
+  }
+};
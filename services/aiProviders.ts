@@ -0,0 +1,23 @@
+import { AiProvider } from './aiProvider';
+import { geminiProvider } from './geminiService';
+import { localProvider } from './localBuilder';
+
+const PROVIDER_STORAGE_KEY = 'kensenichLegoAiProvider';
+
+// Every backend the AI Architect can use, in the order they are offered
+export const AI_PROVIDERS: AiProvider[] = [geminiProvider, localProvider];
+
+export const getAiProvider = (id: string) => AI_PROVIDERS.find(p => p.id === id) ?? AI_PROVIDERS[0];
+
+// The last choice, or else the first provider that can run as set up
+export const loadAiProviderId = (): string => {
+  try {
+    const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (saved && AI_PROVIDERS.some(p => p.id === saved)) return saved;
+  } catch {
+    // Fall through to the default
+  }
+  return (AI_PROVIDERS.find(p => p.isConfigured()) ?? AI_PROVIDERS[0]).id;
+};
+
+export const saveAiProviderId = (id: string) => localStorage.setItem(PROVIDER_STORAGE_KEY, id);
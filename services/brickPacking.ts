@@ -0,0 +1,339 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BRICK_CATALOG } from '../constants';
+import { BrickCategory, BrickTypeDefinition, PlacedBrick } from '../types';
+import { getFootprint } from './occupancyGrid';
+import { footprintCenter, getLayerCount, layerToY } from './units';
+
+// One layer of cells to cover, indexed [row][column]: a color id, or null for empty.
+// Rows run along Z and columns along X.
+export type LayerGrid = (string | null)[][];
+
+interface Candidate {
+  typeId: string;
+  rotation: number;
+  width: number; // Columns covered
+  depth: number; // Rows covered
+  layers: number; // Plate layers covered
+}
+
+interface Placement {
+  id: string;
+  candidate: Candidate;
+  layer: number; // Index into the volume
+  row: number;
+  column: number;
+  colorId: string;
+}
+
+// The volume being packed, with the placement covering each cell in a flat array
+interface PackingState {
+  volume: LayerGrid[];
+  width: number;
+  depth: number;
+  baseLayer: number;
+  origin: [number, number];
+  owner: Int32Array; // Index into placements, or -1
+  placements: (Placement | null)[];
+}
+
+// Bridges tried at most per packing, so a model full of loose bits still imports quickly
+const MAX_BRIDGE_ATTEMPTS = 300;
+
+// Plain rectangular parts of a category, usable to fill a layer
+export const getPackingParts = (category: BrickCategory): BrickTypeDefinition[] =>
+  BRICK_CATALOG.filter(b => b.category === category && (!b.shape || b.shape.kind === 'box') && !b.hasHoles && !b.connections);
+
+const volumeOf = (c: Candidate) => c.width * c.depth * c.layers;
+
+// Each part in both orientations, most cells covered first
+const toCandidates = (parts: BrickTypeDefinition[]): Candidate[] =>
+  parts
+    .flatMap(def => [0, 1].map(rotation => {
+      const [width, depth] = getFootprint(def, rotation);
+      return { typeId: def.id, rotation, width, depth, layers: getLayerCount(def) };
+    }))
+    .filter((c, i, all) => all.findIndex(o => o.width === c.width && o.depth === c.depth && o.layers === c.layers) === i)
+    .sort((a, b) => volumeOf(b) - volumeOf(a));
+
+// Alternating layers favor parts running along X, then along Z, so each part crosses the
+// seams of the one below it. Volume still comes first; this only breaks ties.
+const orderForLayer = (candidates: Candidate[], layer: number) => {
+  const alongX = layer % 2 === 0;
+  const runsTheRightWay = (c: Candidate) => c.width === c.depth || (c.width > c.depth) === alongX;
+  return [...candidates].sort((a, b) => volumeOf(b) - volumeOf(a) || Number(runsTheRightWay(b)) - Number(runsTheRightWay(a)));
+};
+
+const createState = (volume: LayerGrid[], baseLayer: number, origin: [number, number]): PackingState => {
+  const depth = Math.max(0, ...volume.map(grid => grid.length));
+  const width = Math.max(0, ...volume.flatMap(grid => grid.map(row => row.length)));
+  return { volume, width, depth, baseLayer, origin, owner: new Int32Array(volume.length * depth * width).fill(-1), placements: [] };
+};
+
+const cellIndex = (state: PackingState, layer: number, row: number, column: number) =>
+  (layer * state.depth + row) * state.width + column;
+
+const toCell = (state: PackingState, index: number) => ({
+  layer: Math.floor(index / (state.width * state.depth)),
+  row: Math.floor(index / state.width) % state.depth,
+  column: index % state.width,
+});
+
+// Every cell index a placement covers
+const cellsOf = (state: PackingState, p: Omit<Placement, 'id' | 'colorId'>) => {
+  const cells: number[] = [];
+  for (let l = p.layer; l < p.layer + p.candidate.layers; l++) {
+    for (let r = p.row; r < p.row + p.candidate.depth; r++) {
+      for (let c = p.column; c < p.column + p.candidate.width; c++) cells.push(cellIndex(state, l, r, c));
+    }
+  }
+  return cells;
+};
+
+// Whether a candidate at this corner covers only uncovered cells of one color, and only
+// cells of `within` when given
+const fits = (
+  state: PackingState, layer: number, row: number, column: number, candidate: Candidate, colorId: string, within?: Set<number>
+) => {
+  if (layer < 0 || row < 0 || column < 0 || layer + candidate.layers > state.volume.length ||
+    row + candidate.depth > state.depth || column + candidate.width > state.width) return false;
+  for (let l = layer; l < layer + candidate.layers; l++) {
+    for (let r = row; r < row + candidate.depth; r++) {
+      for (let c = column; c < column + candidate.width; c++) {
+        const index = cellIndex(state, l, r, c);
+        if (state.volume[l][r]?.[c] !== colorId || state.owner[index] !== -1 || (within && !within.has(index))) return false;
+      }
+    }
+  }
+  return true;
+};
+
+const place = (state: PackingState, placement: Omit<Placement, 'id'>) => {
+  state.placements.push({ ...placement, id: uuidv4() });
+  cellsOf(state, placement).forEach(index => { state.owner[index] = state.placements.length - 1; });
+};
+
+const unplace = (state: PackingState, index: number) => {
+  cellsOf(state, state.placements[index]!).forEach(cell => { state.owner[cell] = -1; });
+  state.placements[index] = null;
+};
+
+// Takes the biggest part that fits at each uncovered cell (of `within`, when given), in
+// reading order from the bottom layer up. Parts only start on multiples of their height,
+// so bricks keep to courses and every column ends level at each course. When staggered,
+// parts wider than a stud start on even studs in even layers and odd studs in odd ones,
+// so every seam is bridged by the layer above, and the preferred orientation flips from
+// layer to layer.
+const fill = (state: PackingState, candidates: Candidate[], staggered: boolean, within?: Set<number>) => {
+  // Cell indices run layer by layer, then row by row, so sorted they are in reading order
+  const cells = within ? [...within].sort((a, b) => a - b) : Array.from({ length: state.owner.length }, (_, i) => i);
+  const orderedByLayer = new Map<number, Candidate[]>();
+
+  cells.forEach(index => {
+    const { layer: l, row: r, column: c } = toCell(state, index);
+    const colorId = state.volume[l][r]?.[c];
+    if (!colorId || state.owner[index] !== -1) return;
+    const layer = state.baseLayer + l;
+    if (!orderedByLayer.has(layer)) orderedByLayer.set(layer, staggered ? orderForLayer(candidates, layer) : candidates);
+    const phase = layer % 2;
+    const onLattice = (stud: number) => !staggered || ((stud - phase) % 2 + 2) % 2 === 0;
+    const columnOk = onLattice(state.origin[0] + c);
+    const rowOk = onLattice(state.origin[1] + r);
+    const candidate = orderedByLayer.get(layer)!.find(candidate =>
+      layer % candidate.layers === 0 &&
+      (candidate.width === 1 || columnOk) && (candidate.depth === 1 || rowOk) &&
+      fits(state, l, r, c, candidate, colorId, within));
+    if (candidate) place(state, { candidate, layer: l, row: r, column: c, colorId });
+  });
+};
+
+const toBricks = (state: PackingState): PlacedBrick[] =>
+  state.placements.filter((p): p is Placement => !!p).map(p => ({
+    id: p.id,
+    typeId: p.candidate.typeId,
+    position: [
+      footprintCenter(state.origin[0] + p.column, p.candidate.width),
+      layerToY(state.baseLayer + p.layer),
+      footprintCenter(state.origin[1] + p.row, p.candidate.depth),
+    ],
+    rotation: p.candidate.rotation,
+    colorId: p.colorId,
+  }));
+
+// Side-by-side cells of the same color where a group meets a part outside it, as
+// [cell inside, cell outside]
+const findBridgeSites = (state: PackingState, group: Set<number>): [number, number][] => {
+  const sites: [number, number][] = [];
+  group.forEach(index => {
+    const p = state.placements[index]!;
+    cellsOf(state, p).forEach(inside => {
+      const { layer, row, column } = toCell(state, inside);
+      ([[0, 1], [0, -1], [1, 0], [-1, 0]] as const).forEach(([dr, dc]) => {
+        const r = row + dr;
+        const c = column + dc;
+        if (r < 0 || c < 0 || r >= state.depth || c >= state.width) return;
+        const outside = cellIndex(state, layer, r, c);
+        const other = state.owner[outside];
+        if (other !== -1 && !group.has(other) && state.placements[other]!.colorId === p.colorId) sites.push([inside, outside]);
+      });
+    });
+  });
+  return sites;
+};
+
+// Swaps the parts on either side of a site for one part spanning both cells, then refills
+// the rest of their cells. Returns the new placements and an undo, or null when no part
+// fits across.
+const bridge = (state: PackingState, candidates: Candidate[], [inside, outside]: [number, number]) => {
+  const indices = [state.owner[inside], state.owner[outside]];
+  const removed = indices.map(i => state.placements[i]!);
+  const before = state.placements.length;
+  const within = new Set(removed.flatMap(p => cellsOf(state, p)));
+  indices.forEach(i => unplace(state, i));
+
+  const undo = () => {
+    for (let i = before; i < state.placements.length; i++) if (state.placements[i]) unplace(state, i);
+    state.placements.length = before;
+    removed.forEach((p, i) => {
+      state.placements[indices[i]] = p;
+      cellsOf(state, p).forEach(cell => { state.owner[cell] = indices[i]; });
+    });
+  };
+
+  const a = toCell(state, inside);
+  const b = toCell(state, outside);
+  const colorId = removed[0].colorId;
+  const corner = candidates.flatMap(candidate => {
+    const layer = a.layer - (((state.baseLayer + a.layer) % candidate.layers) + candidate.layers) % candidate.layers;
+    const corners: Omit<Placement, 'id'>[] = [];
+    for (let row = Math.max(a.row, b.row) - candidate.depth + 1; row <= Math.min(a.row, b.row); row++) {
+      for (let column = Math.max(a.column, b.column) - candidate.width + 1; column <= Math.min(a.column, b.column); column++) {
+        corners.push({ candidate, layer, row, column, colorId });
+      }
+    }
+    return corners;
+  }).find(p => fits(state, p.layer, p.row, p.column, p.candidate, colorId, within));
+
+  if (!corner) {
+    undo();
+    return null;
+  }
+  place(state, corner);
+  fill(state, candidates, false, within);
+  return { added: Array.from({ length: state.placements.length - before }, (_, i) => before + i), undo };
+};
+
+// Parts stacked directly on or under a placement, which its studs or tubes connect to.
+// Parts below come last, so a search popping from the end heads for the ground first.
+const stackedNeighbours = (state: PackingState, index: number) => {
+  const p = state.placements[index]!;
+  const above = new Set<number>();
+  const below = new Set<number>();
+  for (let r = p.row; r < p.row + p.candidate.depth; r++) {
+    for (let c = p.column; c < p.column + p.candidate.width; c++) {
+      if (p.layer > 0) below.add(state.owner[cellIndex(state, p.layer - 1, r, c)]);
+      if (p.layer + p.candidate.layers < state.volume.length) above.add(state.owner[cellIndex(state, p.layer + p.candidate.layers, r, c)]);
+    }
+  }
+  return [...above, ...below].filter(n => n !== -1);
+};
+
+const isOnGround = (state: PackingState, index: number) => state.baseLayer + state.placements[index]!.layer === 0;
+
+// Groups of connected placements with no path to the ground. Worked out on the cells
+// rather than with buildConnectionGraph: the parts here are plain boxes that only connect
+// by stacking, and this runs again after every accepted bridge.
+const findFloatingGroups = (state: PackingState): Set<number>[] => {
+  const reached = new Set<number>();
+  const flood = (starts: number[]) => {
+    const group = new Set(starts);
+    const queue = [...starts];
+    starts.forEach(i => reached.add(i));
+    while (queue.length > 0) {
+      stackedNeighbours(state, queue.pop()!).forEach(n => {
+        if (reached.has(n)) return;
+        reached.add(n);
+        group.add(n);
+        queue.push(n);
+      });
+    }
+    return group;
+  };
+
+  flood(state.placements.flatMap((p, i) => p && isOnGround(state, i) ? [i] : []));
+  const groups: Set<number>[] = [];
+  state.placements.forEach((p, i) => { if (p && !reached.has(i)) groups.push(flood([i])); });
+  return groups;
+};
+
+// Whether a placement has a path to the ground, always going on from the lowest part
+// found so far, so in a solid model the answer is usually found within a few parts
+const reachesGround = (state: PackingState, start: number) => {
+  const seen = new Set([start]);
+  const byLayer: number[][] = [];
+  const push = (index: number) => (byLayer[state.placements[index]!.layer] ??= []).push(index);
+  push(start);
+  let lowest = state.placements[start]!.layer;
+  for (;;) {
+    while (lowest < byLayer.length && !byLayer[lowest]?.length) lowest++;
+    if (lowest >= byLayer.length) return false;
+    const index = byLayer[lowest].pop()!;
+    if (isOnGround(state, index)) return true;
+    stackedNeighbours(state, index).forEach(n => {
+      if (seen.has(n)) return;
+      seen.add(n);
+      push(n);
+      lowest = Math.min(lowest, state.placements[n]!.layer);
+    });
+  }
+};
+
+// Groups of parts with no path to the ground are tied onto their neighbours, one bridge
+// per group and round. A bridge is kept only when every part it placed reaches the
+// ground: those parts cover the cells of the two they replaced, so everything that stood
+// on or under those two is grounded now as well, and nothing that was grounded comes loose.
+const bridgeFloating = (state: PackingState, candidates: Candidate[]) => {
+  const tried = new Set<string>();
+  let attempts = 0;
+
+  while (attempts < MAX_BRIDGE_ATTEMPTS) {
+    let improved = false;
+    for (const group of findFloatingGroups(state)) {
+      for (const site of findBridgeSites(state, group)) {
+        if (attempts >= MAX_BRIDGE_ATTEMPTS) return;
+        // A bridge earlier this round may have merged the two parts already
+        const [inside, outside] = site.map(cell => state.owner[cell]);
+        if (tried.has(site.join()) || inside === -1 || outside === -1 || inside === outside) continue;
+        tried.add(site.join());
+        attempts++;
+        const result = bridge(state, candidates, site);
+        if (!result) continue;
+        if (result.added.every(index => reachesGround(state, index))) {
+          improved = true;
+          break;
+        }
+        result.undo();
+      }
+    }
+    if (!improved) return;
+  }
+};
+
+// Covers every filled cell of a stack of layers with same-colored parts, as few and as big
+// as possible, in a layout meant to hold together: seams alternate between layers, and
+// groups that would still float are bridged onto their neighbours afterwards. Taller parts
+// are used where a region keeps its color for their full height. `origin` is the stud
+// column and row of [0][0]; cells no part fits (when the parts include no 1x1) are left out.
+export const packVolume = (volume: LayerGrid[], baseLayer: number, origin: [number, number], parts: BrickTypeDefinition[]) => {
+  const state = createState(volume, baseLayer, origin);
+  const candidates = toCandidates(parts);
+  fill(state, candidates, true);
+  bridgeFloating(state, candidates);
+  return toBricks(state);
+};
+
+// A single layer, e.g. a flat mosaic, packed without staggering since nothing rests on it
+export const packLayer = (grid: LayerGrid, layer: number, origin: [number, number], parts: BrickTypeDefinition[]) => {
+  const state = createState([grid], layer, origin);
+  fill(state, toCandidates(parts), false);
+  return toBricks(state);
+};
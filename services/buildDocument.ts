@@ -0,0 +1,235 @@
+import { BRICK_CATALOG, CATALOG_VERSION, COLORS, PLATE_HEIGHT } from '../constants';
+import { BuildDocument, BuildMetadata, PlacedBrick } from '../types';
+import { getFootprint } from './occupancyGrid';
+import { getPackDependencies } from './partLibrary';
+import { findNearestColor } from './colors';
+
+export const DOCUMENT_FORMAT = 'kensenich-lego-build';
+export const DOCUMENT_VERSION = 2;
+
+export interface ValidationIssue {
+  brickIndex: number;
+  brickId?: string;
+  field: 'id' | 'typeId' | 'position' | 'rotation' | 'colorId' | 'rpm';
+  message: string;
+}
+
+export interface ParsedBuild {
+  document: BuildDocument;
+  validBricks: PlacedBrick[];
+  issues: ValidationIssue[];
+  migratedFrom: number | null; // Document version the file was upgraded from, if any
+}
+
+// Unrecoverable problems: not JSON, not a build, or saved by a newer version of the app
+export class BuildDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BuildDocumentError';
+  }
+}
+
+// --- Migrations ---
+
+// Each entry upgrades a raw document from version N to N + 1.
+// Version 0 is the original bare PlacedBrick[] array with no metadata.
+const DOCUMENT_MIGRATIONS: Record<number, (raw: any) => any> = {
+  0: (raw: any[]) => ({
+    format: DOCUMENT_FORMAT,
+    version: 1,
+    metadata: { ...createMetadata('Untitled Build'), catalogVersion: 1 },
+    bricks: raw,
+  }),
+  // Bricks stored a raw hex string; they now reference a palette color by id
+  1: (raw: any) => ({
+    ...raw,
+    version: 2,
+    bricks: Array.isArray(raw.bricks)
+      ? raw.bricks.map((brick: any) => {
+          if (!brick || typeof brick !== 'object' || typeof brick.color !== 'string') return brick;
+          const { color, ...rest } = brick;
+          return { ...rest, colorId: migrateHexColor(color) };
+        })
+      : raw.bricks,
+  }),
+};
+
+// The version 1 palette, so its exact shades keep the colors they were picked as
+const LEGACY_PALETTE: Record<string, string> = {
+  '#ef4444': 'red',
+  '#3b82f6': 'blue',
+  '#eab308': 'yellow',
+  '#15803d': 'green',
+  '#171717': 'black',
+  '#f3f4f6': 'white',
+  '#9ca3af': 'grey',
+  '#f97316': 'orange',
+  '#a855f7': 'purple',
+  '#84cc16': 'lime',
+};
+
+// Off-palette or malformed values are left for validation to report
+const migrateHexColor = (hex: string): string => {
+  const normalized = hex.toLowerCase();
+  if (LEGACY_PALETTE[normalized]) return LEGACY_PALETTE[normalized];
+  return /^#[0-9a-f]{6}$/.test(normalized) ? findNearestColor(normalized).id : hex;
+};
+
+// Each entry rewrites bricks saved against catalog version N for catalog N + 1
+// (renamed part ids, changed dimensions). Empty while the catalog is at version 1.
+const CATALOG_MIGRATIONS: Record<number, (bricks: any[]) => any[]> = {};
+
+export const createMetadata = (name: string, author = ''): BuildMetadata => {
+  const now = new Date().toISOString();
+  return { name, author, created: now, modified: now, catalogVersion: CATALOG_VERSION };
+};
+
+const detectVersion = (raw: any): number => {
+  if (Array.isArray(raw)) return 0;
+  if (raw && typeof raw === 'object' && raw.format === DOCUMENT_FORMAT && Number.isInteger(raw.version)) return raw.version;
+  throw new BuildDocumentError('File is not a KensenichLego build.');
+};
+
+export const migrateDocument = (raw: any): { document: any; migratedFrom: number | null } => {
+  const startVersion = detectVersion(raw);
+  if (startVersion > DOCUMENT_VERSION) {
+    throw new BuildDocumentError(`Build was saved with a newer format (v${startVersion}). Please update the app.`);
+  }
+
+  let document = raw;
+  for (let v = startVersion; v < DOCUMENT_VERSION; v++) {
+    document = DOCUMENT_MIGRATIONS[v](document);
+  }
+
+  let catalogVersion = document.metadata?.catalogVersion ?? 1;
+  if (catalogVersion > CATALOG_VERSION) {
+    throw new BuildDocumentError(`Build uses a newer parts catalog (v${catalogVersion}).`);
+  }
+  let bricks = Array.isArray(document.bricks) ? document.bricks : [];
+  for (; catalogVersion < CATALOG_VERSION; catalogVersion++) {
+    bricks = CATALOG_MIGRATIONS[catalogVersion]?.(bricks) ?? bricks;
+  }
+  document = { ...document, bricks, metadata: { ...document.metadata, catalogVersion } };
+
+  return { document, migratedFrom: startVersion === DOCUMENT_VERSION ? null : startVersion };
+};
+
+// --- Validation ---
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Values on the grid may carry float noise from older saves (e.g. 1.2000000000000002)
+const isNear = (value: number, target: number) => Math.abs(value - target) < 1e-3;
+
+const validateBrick = (brick: any, index: number, seenIds: Set<string>): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const brickId = typeof brick?.id === 'string' ? brick.id : undefined;
+  const issue = (field: ValidationIssue['field'], message: string) => issues.push({ brickIndex: index, brickId, field, message });
+
+  if (!brick || typeof brick !== 'object') {
+    issue('id', 'Entry is not a brick object');
+    return issues;
+  }
+
+  if (!brickId) issue('id', 'Missing brick id');
+  else if (seenIds.has(brickId)) issue('id', `Duplicate brick id "${brickId}"`);
+  else seenIds.add(brickId);
+
+  const def = BRICK_CATALOG.find(b => b.id === brick.typeId);
+  if (!def) issue('typeId', `Unknown part "${brick.typeId}"`);
+
+  const rotationValid = Number.isInteger(brick.rotation) && brick.rotation >= 0 && brick.rotation <= 3;
+  if (!rotationValid) issue('rotation', `Rotation must be 0, 1, 2 or 3 (got ${JSON.stringify(brick.rotation)})`);
+
+  const position = brick.position;
+  if (!Array.isArray(position) || position.length !== 3 || !position.every(isFiniteNumber)) {
+    issue('position', 'Position must be three numbers [x, y, z]');
+  } else {
+    const [x, y, z] = position;
+    if (y < 0 || !isNear(y / PLATE_HEIGHT, Math.round(y / PLATE_HEIGHT))) {
+      issue('position', `Height ${y} is not a plate layer (multiple of ${PLATE_HEIGHT})`);
+    }
+    // Odd footprints sit on stud centers, even ones on grid lines
+    if (def && rotationValid) {
+      const [width, depth] = getFootprint(def, brick.rotation);
+      const offsetX = width % 2 === 0 ? 0.5 : 0;
+      const offsetZ = depth % 2 === 0 ? 0.5 : 0;
+      if (!isNear(x - offsetX, Math.round(x - offsetX)) || !isNear(z - offsetZ, Math.round(z - offsetZ))) {
+        issue('position', `Position (${x}, ${z}) is off the stud grid for a ${width}x${depth} footprint`);
+      }
+    }
+  }
+
+  if (typeof brick.colorId !== 'string' || !COLORS.some(c => c.id === brick.colorId)) {
+    issue('colorId', `Unknown color ${JSON.stringify(brick.colorId)}`);
+  }
+
+  if (brick.rpm !== undefined && !isFiniteNumber(brick.rpm)) {
+    issue('rpm', `Motor speed must be a number (got ${JSON.stringify(brick.rpm)})`);
+  }
+
+  return issues;
+};
+
+export const validateBricks = (bricks: unknown[]): { validBricks: PlacedBrick[]; issues: ValidationIssue[] } => {
+  const seenIds = new Set<string>();
+  const validBricks: PlacedBrick[] = [];
+  const issues: ValidationIssue[] = [];
+
+  bricks.forEach((brick, index) => {
+    const brickIssues = validateBrick(brick, index, seenIds);
+    if (brickIssues.length === 0) validBricks.push(brick as PlacedBrick);
+    issues.push(...brickIssues);
+  });
+  return { validBricks, issues };
+};
+
+// --- Entry points ---
+
+export const parseBuildDocument = (text: string): ParsedBuild => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BuildDocumentError('File is not valid JSON.');
+  }
+
+  const { document, migratedFrom } = migrateDocument(raw);
+  const { validBricks, issues } = validateBricks(document.bricks);
+  const metadata: BuildMetadata = { ...createMetadata('Untitled Build'), ...document.metadata };
+  return {
+    document: { ...document, metadata },
+    validBricks,
+    issues,
+    migratedFrom,
+  };
+};
+
+export const serializeBuild = (bricks: PlacedBrick[], metadata: BuildMetadata): string => {
+  const document: BuildDocument = {
+    format: DOCUMENT_FORMAT,
+    version: DOCUMENT_VERSION,
+    metadata: {
+      ...metadata,
+      modified: new Date().toISOString(),
+      catalogVersion: CATALOG_VERSION,
+      packs: getPackDependencies(bricks),
+    },
+    bricks,
+  };
+  return JSON.stringify(document);
+};
+
+// The stored text with a new build name, e.g. after a project is renamed. Older
+// documents are migrated first, since only current ones carry metadata to hold it.
+export const renameBuildDocument = (text: string, name: string): string => {
+  const { document } = migrateDocument(JSON.parse(text));
+  return JSON.stringify({ ...document, metadata: { ...createMetadata(name), ...document.metadata, name } });
+};
+
+// Short human-readable report, e.g. for a confirm() dialog
+export const formatIssues = (issues: ValidationIssue[], limit = 8): string => {
+  const lines = issues.slice(0, limit).map(i => `• Brick #${i.brickIndex + 1}${i.brickId ? ` (${i.brickId.slice(0, 8)})` : ''}: ${i.message}`);
+  if (issues.length > limit) lines.push(`…and ${issues.length - limit} more`);
+  return lines.join('\n');
+};
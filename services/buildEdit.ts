@@ -0,0 +1,112 @@
+import { BRICK_CATALOG } from '../constants';
+import { PlacedBrick } from '../types';
+import { BrickOp, diffBricks } from './history';
+import { moveBricks } from './groupTransforms';
+import { GeneratedPart, RepairDiagnostic, repairGeneratedBuild, resolveColor } from './buildRepair';
+import { getLayerCount, toLayer } from './units';
+
+// Conversational editing: the AI sees the scene as one short line per part and answers
+// with a structured diff against it, which is checked and applied as one undoable change.
+
+// Parts beyond this are left out of the prompt, newest first kept
+export const MAX_AI_SCENE_PARTS = 400;
+
+export interface SceneSnapshot {
+  text: string;
+  refs: Map<string, string>; // Short reference ("b12") -> brick id
+}
+
+// A change as the AI returns it; refs name parts from the snapshot it was shown
+export interface BuildEdit {
+  reply: string;
+  add: GeneratedPart[];
+  remove: string[];
+  recolor: { ref: string; colorId: string }[];
+  move: { ref: string; dx: number; dy: number; dz: number }[]; // Studs on X/Z, plates on Y
+}
+
+export interface AiChatTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  entryId?: number; // History entry of the change this turn made
+  revertEntryId?: number; // Entry that took the change back out of order, if any
+  diagnostics?: RepairDiagnostic[];
+}
+
+// "b3 brick_2x4 red 0.5 1.2 -1 r1 h3": ref, part, color, position, quarter turns, height in plates
+export const serializeSceneForAi = (bricks: PlacedBrick[]): SceneSnapshot => {
+  const refs = new Map<string, string>();
+  const shown = bricks.slice(-MAX_AI_SCENE_PARTS);
+  const lines = shown.map((brick, i) => {
+    const ref = `b${i + 1}`;
+    refs.set(ref, brick.id);
+    const def = BRICK_CATALOG.find(b => b.id === brick.typeId);
+    return `${ref} ${brick.typeId} ${brick.colorId} ${brick.position.join(' ')} r${brick.rotation} h${def ? getLayerCount(def) : '?'}`;
+  });
+  if (shown.length < bricks.length) lines.unshift(`(${bricks.length - shown.length} older parts not listed)`);
+  return { text: lines.length > 0 ? lines.join('\n') : '(empty scene)', refs };
+};
+
+// Keeps the entries of a list that have the expected shape; anything else is dropped
+const list = <T>(value: unknown, isValid: (entry: any) => boolean): T[] =>
+  Array.isArray(value) ? value.filter(isValid) as T[] : [];
+
+const isObject = (entry: any) => !!entry && typeof entry === 'object';
+const hasRef = (entry: any) => isObject(entry) && typeof entry.ref === 'string';
+
+// Reads an edit from untyped model output; missing lists count as empty
+export const parseBuildEdit = (raw: any): BuildEdit => ({
+  reply: typeof raw?.reply === 'string' ? raw.reply : '',
+  add: list<GeneratedPart>(raw?.add, isObject),
+  remove: list<string>(raw?.remove, entry => typeof entry === 'string'),
+  recolor: list(raw?.recolor, hasRef),
+  move: list(raw?.move, hasRef),
+});
+
+// Applies an edit in the order remove, recolor, move, add. Changes naming unknown parts or
+// colors, and moves that would collide, are skipped and reported; added parts go through
+// the same checks and repairs as a generated build.
+export const applyBuildEdit = (
+  edit: BuildEdit,
+  bricks: PlacedBrick[],
+  snapshot: SceneSnapshot
+): { ops: BrickOp[]; diagnostics: RepairDiagnostic[] } => {
+  const diagnostics: RepairDiagnostic[] = [];
+  const skip = (message: string) => diagnostics.push({ action: 'skipped', message });
+  const idOf = (ref: string) => {
+    const id = snapshot.refs.get(ref);
+    if (id && bricks.some(b => b.id === id)) return id;
+    skip(`No part "${ref}" in the scene`);
+    return null;
+  };
+
+  const removed = new Set(edit.remove.map(idOf).filter((id): id is string => !!id));
+  let next = bricks.filter(b => !removed.has(b.id));
+
+  edit.recolor.forEach(({ ref, colorId }) => {
+    const id = idOf(ref);
+    if (!id) return;
+    const color = resolveColor(colorId);
+    if (!color) skip(`Unknown color "${colorId}" for ${ref}`);
+    else next = next.map(b => b.id === id ? { ...b, colorId: color.id } : b);
+  });
+
+  edit.move.forEach(({ ref, dx, dy, dz }) => {
+    const id = idOf(ref);
+    if (!id) return;
+    const offset: [number, number, number] = [Math.round(Number(dx) || 0), Math.round(Number(dy) || 0), Math.round(Number(dz) || 0)];
+    const brick = next.find(b => b.id === id);
+    if (!brick) return;
+    if (toLayer(brick.position[1]) + offset[1] < 0) {
+      skip(`Moving ${ref} would put it below ground`);
+      return;
+    }
+    const moved = moveBricks(next, new Set([id]), offset);
+    if (moved) next = moved;
+    else skip(`Moving ${ref} by (${offset.join(', ')}) would collide`);
+  });
+
+  const added = repairGeneratedBuild(edit.add, next);
+  next = [...next, ...added.bricks];
+  return { ops: diffBricks(bricks, next), diagnostics: [...diagnostics, ...added.diagnostics] };
+};
@@ -0,0 +1,169 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BRICK_CATALOG, COLORS } from '../constants';
+import { PlacedBrick } from '../types';
+import { buildOccupancyIndex, canPlace, getBrickCells, getFootprint, OccupancyIndex } from './occupancyGrid';
+import { buildConnectionGraph, findAttachments, moveBrickInGraph } from './connectionGraph';
+import { findNearestColor } from './colors';
+import { layerToY, snapPosition, toLayer } from './units';
+
+// A part as generated, before any checks; fields may be missing or of the wrong type
+export interface GeneratedPart {
+  partId: unknown;
+  x: unknown;
+  y: unknown;
+  z: unknown;
+  rotation: unknown;
+  colorId: unknown;
+}
+
+export type RepairAction = 'snapped' | 'recolored' | 'rotated' | 'raised' | 'lowered' | 'removed' | 'skipped';
+
+export interface RepairDiagnostic {
+  index?: number; // Position in the generated list, for generated parts
+  action: RepairAction;
+  message: string;
+}
+
+export interface RepairResult {
+  bricks: PlacedBrick[];
+  diagnostics: RepairDiagnostic[];
+}
+
+// How far an overlapping part may be lifted to find free space before it is dropped
+const MAX_LIFT_LAYERS = 6;
+// Positions closer than this to the grid count as on it
+const SNAP_TOLERANCE = 0.01;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Palette entry for a generated color: the id itself, a name, or failing that a hex code
+export const resolveColor = (value: unknown) => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  const match = COLORS.find(c => c.id === text || c.name.toLowerCase() === text);
+  if (match) return match;
+  return /^#?[0-9a-f]{6}$/.test(text) ? findNearestColor(text.startsWith('#') ? text : `#${text}`) : null;
+};
+
+const occupy = (occupancy: OccupancyIndex, brick: PlacedBrick) =>
+  getBrickCells(brick).forEach(cell => occupancy.set(cell, brick.id));
+
+const vacate = (occupancy: OccupancyIndex, brick: PlacedBrick) =>
+  getBrickCells(brick).forEach(cell => { if (occupancy.get(cell) === brick.id) occupancy.delete(cell); });
+
+const atLayer = (brick: PlacedBrick, layer: number): PlacedBrick =>
+  ({ ...brick, position: [brick.position[0], layerToY(layer), brick.position[2]] });
+
+// Checks a generated build against the catalog, palette, grid and the scene it goes into:
+// 1. parts with unknown ids or unusable coordinates are removed, unknown colors replaced;
+// 2. positions are snapped to stud columns and plate layers, rotations to quarter turns;
+// 3. parts overlapping the scene or earlier parts are lifted to the nearest free space,
+//    or removed when there is none close by;
+// 4. parts with nothing holding them are lowered onto whatever is below, or removed.
+// Every change is reported, so nothing is fixed silently.
+export const repairGeneratedBuild = (parts: GeneratedPart[], scene: PlacedBrick[]): RepairResult => {
+  const diagnostics: RepairDiagnostic[] = [];
+  const report = (index: number, action: RepairAction, message: string) => diagnostics.push({ index, action, message });
+  const indexOf = new Map<string, number>();
+  const occupancy = buildOccupancyIndex(scene);
+  let bricks: PlacedBrick[] = [];
+
+  parts.forEach((part, index) => {
+    const def = BRICK_CATALOG.find(b => b.id === part.partId);
+    if (!def) {
+      report(index, 'removed', `Unknown part "${String(part.partId)}"`);
+      return;
+    }
+    const { x, y, z } = part;
+    if (!isFiniteNumber(x) || !isFiniteNumber(y) || !isFiniteNumber(z)) {
+      report(index, 'removed', `${def.name} has no usable position`);
+      return;
+    }
+
+    let color = resolveColor(part.colorId);
+    if (!color) {
+      color = COLORS.find(c => c.id === 'grey') ?? COLORS[0];
+      report(index, 'recolored', `${def.name}: unknown color "${String(part.colorId)}", using ${color.name}`);
+    } else if (color.id !== String(part.colorId).trim().toLowerCase()) {
+      report(index, 'recolored', `${def.name}: color "${String(part.colorId)}" read as ${color.name}`);
+    }
+
+    const turns = isFiniteNumber(part.rotation) ? Math.round(part.rotation) : 0;
+    const rotation = ((turns % 4) + 4) % 4;
+    if (rotation !== part.rotation) report(index, 'rotated', `${def.name}: rotation ${String(part.rotation)} read as ${rotation}`);
+
+    const position = snapPosition([x, y, z], getFootprint(def, rotation));
+    if (Math.hypot(position[0] - x, position[1] - y, position[2] - z) > SNAP_TOLERANCE) {
+      report(index, 'snapped', `${def.name} moved onto the grid at (${position.join(', ')})`);
+    }
+
+    // Lift out of overlaps, one plate at a time
+    const brick: PlacedBrick = { id: uuidv4(), typeId: def.id, position, rotation, colorId: color.id };
+    const baseLayer = toLayer(position[1]);
+    let placed: PlacedBrick | null = null;
+    for (let lift = 0; lift <= MAX_LIFT_LAYERS && !placed; lift++) {
+      const candidate = atLayer(brick, baseLayer + lift);
+      if (canPlace(occupancy, candidate)) placed = candidate;
+    }
+    if (!placed) {
+      report(index, 'removed', `${def.name} overlaps other parts with no free space above`);
+      return;
+    }
+    if (toLayer(placed.position[1]) !== baseLayer) {
+      report(index, 'raised', `${def.name} lifted ${toLayer(placed.position[1]) - baseLayer} plate(s) out of an overlap`);
+    }
+    occupy(occupancy, placed);
+    indexOf.set(placed.id, index);
+    bricks.push(placed);
+  });
+
+  // Settle unsupported parts bottom up, so a part lowered into place can hold the ones above it
+  // One graph for the whole pass, moving each lowered part within it
+  const graph = buildConnectionGraph([...scene, ...bricks]);
+  const byHeight = [...bricks].sort((a, b) => a.position[1] - b.position[1]);
+  for (const original of byHeight) {
+    const current = bricks.find(b => b.id === original.id)!;
+    if (!graph.floating.has(current.id)) continue;
+
+    // Drop straight down to the first layer where the part clutches onto something
+    vacate(occupancy, current);
+    const baseLayer = toLayer(current.position[1]);
+    let settled: PlacedBrick | null = null;
+    for (let layer = baseLayer - 1; layer >= 0; layer--) {
+      const candidate = atLayer(current, layer);
+      if (!canPlace(occupancy, candidate)) break;
+      if (findAttachments(graph, candidate).some(id => id !== current.id)) {
+        settled = candidate;
+        break;
+      }
+    }
+    const index = indexOf.get(current.id)!;
+    const name = BRICK_CATALOG.find(b => b.id === current.typeId)!.name;
+    if (settled) {
+      report(index, 'lowered', `${name} lowered ${baseLayer - toLayer(settled.position[1])} plate(s) onto a support`);
+      occupy(occupancy, settled);
+      moveBrickInGraph(graph, current, settled);
+      bricks = bricks.map(b => b.id === current.id ? settled! : b);
+    } else {
+      occupy(occupancy, current);
+    }
+  }
+
+  // Whatever still floats has nothing below it to rest on
+  bricks = bricks.filter(brick => {
+    if (!graph.floating.has(brick.id)) return true;
+    const name = BRICK_CATALOG.find(b => b.id === brick.typeId)!.name;
+    report(indexOf.get(brick.id)!, 'removed', `${name} is not connected to anything`);
+    return false;
+  });
+
+  diagnostics.sort((a, b) => a.index! - b.index!);
+  return { bricks, diagnostics };
+};
+
+// Short summary line, e.g. "3 snapped, 1 removed"
+export const summarizeRepairs = (diagnostics: RepairDiagnostic[]) => {
+  const counts = new Map<RepairAction, number>();
+  diagnostics.forEach(d => counts.set(d.action, (counts.get(d.action) ?? 0) + 1));
+  return [...counts].map(([action, count]) => `${count} ${action}`).join(', ');
+};
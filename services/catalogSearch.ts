@@ -0,0 +1,115 @@
+import { BrickCategory, BrickTypeDefinition } from '../types';
+import { getLayerCount } from './units';
+
+// Text search and facet filtering over the parts catalog, plus the recently used
+// and favorite part lists shown above the results.
+
+export type PartFeature = 'studs' | 'no-studs' | 'holes';
+
+export interface CatalogFilter {
+  query: string;
+  categories: BrickCategory[]; // Empty means any; the facets below likewise
+  sizes: string[]; // Footprints as "1x2", smaller side first
+  heights: number[]; // In plates
+  features: PartFeature[];
+}
+
+export const EMPTY_CATALOG_FILTER: CatalogFilter = { query: '', categories: [], sizes: [], heights: [], features: [] };
+
+export interface FacetOptions {
+  categories: BrickCategory[];
+  sizes: string[];
+  heights: number[];
+}
+
+const RECENT_STORAGE_KEY = 'kensenichLegoRecentParts';
+const FAVORITES_STORAGE_KEY = 'kensenichLegoFavoriteParts';
+export const MAX_RECENT_PARTS = 8;
+
+// Footprint independent of orientation, so "2x1" and "1x2" are one size
+export const getFootprintLabel = (part: BrickTypeDefinition) =>
+  `${Math.min(part.width, part.depth)}x${Math.max(part.width, part.depth)}`;
+
+// Height facet values are whole plates, per the unit convention in units.ts
+export const getHeightInPlates = getLayerCount;
+
+export const formatHeight = (plates: number) =>
+  plates % 3 === 0 ? `${plates / 3} brick${plates === 3 ? '' : 's'}` : `${plates} plate${plates === 1 ? '' : 's'}`;
+
+const hasHoles = (part: BrickTypeDefinition) =>
+  !!part.hasHoles || (part.connections ?? []).some(c => c.kind === 'pin-hole' || c.kind === 'axle-hole');
+
+const hasFeature = (part: BrickTypeDefinition, feature: PartFeature) => {
+  if (feature === 'studs') return part.hasStuds;
+  if (feature === 'no-studs') return !part.hasStuds;
+  return hasHoles(part);
+};
+
+// Every query word must appear in the name or id; "2x4" also matches a 4x2 footprint
+const matchesQuery = (part: BrickTypeDefinition, query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = `${part.name} ${part.id}`.toLowerCase();
+  const footprint = getFootprintLabel(part);
+  return words.every(word => {
+    if (haystack.includes(word)) return true;
+    const size = word.match(/^(\d+)x(\d+)$/);
+    return !!size && footprint === `${Math.min(+size[1], +size[2])}x${Math.max(+size[1], +size[2])}`;
+  });
+};
+
+export const isFilterActive = (filter: CatalogFilter) =>
+  filter.query.trim() !== '' || filter.categories.length > 0 || filter.sizes.length > 0
+  || filter.heights.length > 0 || filter.features.length > 0;
+
+// Parts passing the search and every facet, in catalog order. Values within a facet
+// are alternatives; features must all hold.
+export const filterCatalog = (catalog: BrickTypeDefinition[], filter: CatalogFilter): BrickTypeDefinition[] =>
+  catalog.filter(part =>
+    matchesQuery(part, filter.query)
+    && (filter.categories.length === 0 || filter.categories.includes(part.category))
+    && (filter.sizes.length === 0 || filter.sizes.includes(getFootprintLabel(part)))
+    && (filter.heights.length === 0 || filter.heights.includes(getHeightInPlates(part)))
+    && filter.features.every(feature => hasFeature(part, feature))
+  );
+
+// Facet values present in the catalog, smallest first
+export const getFacetOptions = (catalog: BrickTypeDefinition[]): FacetOptions => {
+  const categories = [...new Set(catalog.map(p => p.category))];
+  const sizes = [...new Set(catalog.map(getFootprintLabel))].sort((a, b) => {
+    const [a1, a2] = a.split('x').map(Number);
+    const [b1, b2] = b.split('x').map(Number);
+    return a1 * a2 - b1 * b2 || a1 - b1;
+  });
+  const heights = [...new Set(catalog.map(getHeightInPlates))].sort((a, b) => a - b);
+  return { categories, sizes, heights };
+};
+
+// Adds the value to a facet when absent, removes it otherwise
+export const toggleFacet = <K extends 'categories' | 'sizes' | 'heights' | 'features'>(
+  filter: CatalogFilter, facet: K, value: CatalogFilter[K][number]
+): CatalogFilter => {
+  const values = filter[facet] as unknown[];
+  const next = values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+  return { ...filter, [facet]: next };
+};
+
+// --- Recents & favorites ---
+
+// Most recent first, without duplicates
+export const pushRecentPart = (recent: string[], typeId: string) =>
+  [typeId, ...recent.filter(id => id !== typeId)].slice(0, MAX_RECENT_PARTS);
+
+const loadIdList = (key: string): string[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(id => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const loadRecentParts = () => loadIdList(RECENT_STORAGE_KEY);
+export const saveRecentParts = (ids: string[]) => localStorage.setItem(RECENT_STORAGE_KEY, JSON.stringify(ids));
+export const loadFavoriteParts = () => loadIdList(FAVORITES_STORAGE_KEY);
+export const saveFavoriteParts = (ids: string[]) => localStorage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(ids));
@@ -0,0 +1,49 @@
+import { COLORS } from '../constants';
+import { BrickColor } from '../types';
+
+// Stand-in for ids missing from the palette, e.g. a color from a removed pack
+const UNKNOWN_COLOR: BrickColor = { id: 'unknown', name: 'Unknown', hex: '#a0a5a9', finish: 'solid' };
+
+export const getColor = (colorId: string): BrickColor =>
+  COLORS.find(c => c.id === colorId) ?? { ...UNKNOWN_COLOR, id: colorId, name: colorId };
+
+export const getColorHex = (colorId: string) => getColor(colorId).hex;
+
+export type Rgb = [number, number, number];
+
+export const toRgb = (hex: string): Rgb => {
+  const n = parseInt(hex.replace('#', ''), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+// "Redmean" weighted RGB distance: cheap, and close enough to perceived difference
+// to pick between palette entries
+const colorDistance = ([r1, g1, b1]: Rgb, [r2, g2, b2]: Rgb) => {
+  const mean = (r1 + r2) / 2;
+  const dr = r1 - r2;
+  const dg = g1 - g2;
+  const db = b1 - b2;
+  return Math.sqrt((2 + mean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - mean) / 256) * db * db);
+};
+
+// Closest palette entry to an arbitrary hex. Only solid colors qualify unless the
+// caller asks for another finish, so a flat shade never turns into glass or chrome.
+export const findNearestColor = (hex: string, finish: BrickColor['finish'] = 'solid'): BrickColor => {
+  const exact = COLORS.find(c => c.hex.toLowerCase() === hex.toLowerCase() && (c.finish ?? 'solid') === finish);
+  return exact ?? findNearestRgb(toRgb(hex), COLORS.filter(c => (c.finish ?? 'solid') === finish));
+};
+
+// Closest entry of `candidates` to an RGB triple, for callers that match many pixels
+// against the same shortlist
+export const findNearestRgb = (rgb: Rgb, candidates: BrickColor[]): BrickColor => {
+  let best = candidates[0] ?? COLORS[0];
+  let bestDistance = Infinity;
+  for (const color of candidates) {
+    const distance = colorDistance(rgb, toRgb(color.hex));
+    if (distance < bestDistance) {
+      best = color;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
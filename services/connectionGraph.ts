@@ -0,0 +1,185 @@
+import { BRICK_CATALOG } from '../constants';
+import { PlacedBrick } from '../types';
+import { BrickPlacement, BrickBounds, cellKey, getBrickBounds } from './occupancyGrid';
+import { getStudCells, getTubeCells, toWorldColumn } from './partShapes';
+import {
+  TechnicIndex, addTechnicPoints, buildTechnicIndex, findTechnicEngagements, findTechnicPartners, getTechnicPoints,
+  removeTechnicPoints
+} from './connectionPoints';
+
+// Pseudo-node standing for the baseplate every layer-0 brick clutches into
+export const GROUND_ID = '__ground__';
+
+export interface ConnectionGraph {
+  // brickId -> neighbour id (or GROUND_ID) -> number of engaged studs
+  edges: Map<string, Map<string, number>>;
+  // Connected groups of bricks, ignoring the ground
+  components: string[][];
+  componentOf: Map<string, number>;
+  // Components with no path to the ground
+  floating: Set<string>;
+  // Stud positions (the cell right above a studded brick) and tube positions (a brick's base cells)
+  studIndex: Map<string, string>;
+  tubeIndex: Map<string, string>;
+  // Technic holes and the pins and axles that can seat in them
+  technicIndex: TechnicIndex;
+}
+
+// World columns carrying studs on top and tubes underneath; slopes only have them on their flat rows
+const getConnectorColumns = (brick: BrickPlacement) => {
+  const def = BRICK_CATALOG.find(b => b.id === brick.typeId);
+  if (!def) return { studs: [], tubes: [] };
+  const toWorld = (cell: [number, number]) => toWorldColumn(def, brick.position, brick.rotation, cell);
+  return { studs: getStudCells(def).map(toWorld), tubes: getTubeCells(def).map(toWorld) };
+};
+
+const addEdge = (edges: ConnectionGraph['edges'], a: string, b: string) => {
+  if (!edges.has(a)) edges.set(a, new Map());
+  const neighbours = edges.get(a)!;
+  neighbours.set(b, (neighbours.get(b) || 0) + 1);
+};
+
+// Flood-fill components over brick-to-brick edges
+const findComponents = (edges: ConnectionGraph['edges']): Pick<ConnectionGraph, 'components' | 'componentOf' | 'floating'> => {
+  const components: string[][] = [];
+  const componentOf = new Map<string, number>();
+  const floating = new Set<string>();
+
+  for (const id of edges.keys()) {
+    if (componentOf.has(id)) continue;
+    const componentIndex = components.length;
+    const members: string[] = [];
+    let grounded = false;
+    const stack = [id];
+    componentOf.set(id, componentIndex);
+
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      members.push(current);
+      for (const neighbour of edges.get(current)!.keys()) {
+        if (neighbour === GROUND_ID) {
+          grounded = true;
+        } else if (!componentOf.has(neighbour)) {
+          componentOf.set(neighbour, componentIndex);
+          stack.push(neighbour);
+        }
+      }
+    }
+
+    components.push(members);
+    if (!grounded) members.forEach(m => floating.add(m));
+  }
+  return { components, componentOf, floating };
+};
+
+export const buildConnectionGraph = (bricks: PlacedBrick[]): ConnectionGraph => {
+  const edges: ConnectionGraph['edges'] = new Map();
+  const studIndex = new Map<string, string>();
+  const tubeIndex = new Map<string, string>();
+  const boundsById = new Map<string, BrickBounds>();
+  const tubesById = new Map<string, [number, number][]>();
+
+  for (const brick of bricks) {
+    const bounds = getBrickBounds(brick);
+    if (!bounds) continue;
+    boundsById.set(brick.id, bounds);
+    edges.set(brick.id, new Map());
+
+    const studLayer = bounds.baseLayer + bounds.layers;
+    const { studs, tubes } = getConnectorColumns(brick);
+    tubesById.set(brick.id, tubes);
+    studs.forEach(([x, z]) => studIndex.set(cellKey(x, studLayer, z), brick.id));
+    tubes.forEach(([x, z]) => tubeIndex.set(cellKey(x, bounds.baseLayer, z), brick.id));
+  }
+
+  // A stud is engaged when another brick's underside sits right on it
+  for (const [id, bounds] of boundsById) {
+    tubesById.get(id)!.forEach(([x, z]) => {
+      if (bounds.baseLayer === 0) {
+        addEdge(edges, id, GROUND_ID);
+        return;
+      }
+      const below = studIndex.get(cellKey(x, bounds.baseLayer, z));
+      if (below && below !== id) {
+        addEdge(edges, id, below);
+        addEdge(edges, below, id);
+      }
+    });
+  }
+
+  // Pins and axles hold parts together sideways, one connection per seated insert point
+  const technicIndex = buildTechnicIndex(bricks);
+  for (const { insert, hole } of findTechnicEngagements(technicIndex)) {
+    addEdge(edges, insert.brickId, hole.brickId);
+    addEdge(edges, hole.brickId, insert.brickId);
+  }
+
+  return { edges, ...findComponents(edges), studIndex, tubeIndex, technicIndex };
+};
+
+// Total engaged studs on a brick, counting both above and below
+export const getConnectionCount = (graph: ConnectionGraph, brickId: string) => {
+  let total = 0;
+  graph.edges.get(brickId)?.forEach(count => { total += count; });
+  return total;
+};
+
+// Bricks a candidate placement would clutch to, with the ground as GROUND_ID
+export const findAttachments = (graph: ConnectionGraph, candidate: BrickPlacement): string[] => {
+  const bounds = getBrickBounds(candidate);
+  if (!bounds) return [];
+  const { studs, tubes } = getConnectorColumns(candidate);
+  if (bounds.baseLayer === 0 && tubes.length > 0) return [GROUND_ID];
+
+  const attached = new Set<string>();
+  const studLayer = bounds.baseLayer + bounds.layers;
+  tubes.forEach(([x, z]) => {
+    const below = graph.studIndex.get(cellKey(x, bounds.baseLayer, z));
+    if (below) attached.add(below);
+  });
+  studs.forEach(([x, z]) => {
+    const above = graph.tubeIndex.get(cellKey(x, studLayer, z));
+    if (above) attached.add(above);
+  });
+  findTechnicPartners(graph.technicIndex, getTechnicPoints('', candidate)).forEach(id => attached.add(id));
+  return [...attached];
+};
+
+// Moves one brick within an existing graph, in place, rather than rebuilding it for the
+// whole build. Only the moved brick's connections are worked out again.
+export const moveBrickInGraph = (graph: ConnectionGraph, from: PlacedBrick, to: PlacedBrick) => {
+  const id = from.id;
+  const fromBounds = getBrickBounds(from);
+  const toBounds = getBrickBounds(to);
+  if (!fromBounds || !toBounds || !graph.edges.has(id)) return;
+
+  // Let go of everything at the old spot
+  graph.edges.get(id)!.forEach((_, neighbour) => graph.edges.get(neighbour)?.delete(id));
+  graph.edges.set(id, new Map());
+  const release = (index: Map<string, string>, key: string) => { if (index.get(key) === id) index.delete(key); };
+  const before = getConnectorColumns(from);
+  before.studs.forEach(([x, z]) => release(graph.studIndex, cellKey(x, fromBounds.baseLayer + fromBounds.layers, z)));
+  before.tubes.forEach(([x, z]) => release(graph.tubeIndex, cellKey(x, fromBounds.baseLayer, z)));
+  removeTechnicPoints(graph.technicIndex, getTechnicPoints(id, from));
+
+  // Connect at the new one, counting the same way as buildConnectionGraph
+  const link = (other: string | undefined) => {
+    if (!other || other === id) return;
+    addEdge(graph.edges, id, other);
+    addEdge(graph.edges, other, id);
+  };
+  const studLayer = toBounds.baseLayer + toBounds.layers;
+  const after = getConnectorColumns(to);
+  after.tubes.forEach(([x, z]) => {
+    if (toBounds.baseLayer === 0) addEdge(graph.edges, id, GROUND_ID);
+    else link(graph.studIndex.get(cellKey(x, toBounds.baseLayer, z)));
+  });
+  after.studs.forEach(([x, z]) => link(graph.tubeIndex.get(cellKey(x, studLayer, z))));
+  const points = getTechnicPoints(id, to);
+  findTechnicPartners(graph.technicIndex, points).forEach(link);
+  after.studs.forEach(([x, z]) => graph.studIndex.set(cellKey(x, studLayer, z), id));
+  after.tubes.forEach(([x, z]) => graph.tubeIndex.set(cellKey(x, toBounds.baseLayer, z), id));
+  addTechnicPoints(graph.technicIndex, points);
+
+  Object.assign(graph, findComponents(graph.edges));
+};
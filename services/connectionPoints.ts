@@ -0,0 +1,216 @@
+import { BRICK_CATALOG } from '../constants';
+import { BrickTypeDefinition, ConnectionPoint, ConnectionPointKind, PlacedBrick } from '../types';
+import { BrickPlacement, OccupancyIndex, canPlace } from './occupancyGrid';
+import { getStudCells, getTubeCells } from './partShapes';
+import { getPartHeight, layerToY, toLayer } from './units';
+
+type Vec3 = [number, number, number];
+
+export interface WorldConnectionPoint {
+  brickId: string;
+  kind: ConnectionPointKind;
+  position: Vec3;
+  direction: Vec3;
+  local: ConnectionPoint; // The part-space point this was placed from
+}
+
+// An insert seated in a hole of another part
+export interface TechnicEngagement {
+  insert: WorldConnectionPoint;
+  hole: WorldConnectionPoint;
+}
+
+// Technic holes and the inserts seated in them, keyed by world position
+export interface TechnicIndex {
+  holes: Map<string, WorldConnectionPoint[]>;
+  inserts: Map<string, WorldConnectionPoint[]>;
+}
+
+// Which holes each insert goes into
+const FITS: Partial<Record<ConnectionPointKind, ConnectionPointKind[]>> = {
+  pin: ['pin-hole'],
+  axle: ['axle-hole', 'pin-hole'],
+};
+
+const isHole = (kind: ConnectionPointKind) => kind === 'pin-hole' || kind === 'axle-hole';
+const isInsert = (kind: ConnectionPointKind) => kind === 'pin' || kind === 'axle';
+
+const cache = new WeakMap<BrickTypeDefinition, ConnectionPoint[]>();
+
+// Every connection point of a part: derived studs and anti-studs plus its declared Technic points
+export const getConnectionPoints = (def: BrickTypeDefinition): ConnectionPoint[] => {
+  let points = cache.get(def);
+  if (!points) {
+    const h = getPartHeight(def);
+    const local = ([i, j]: [number, number]) => [i - (def.width - 1) / 2, j - (def.depth - 1) / 2];
+    points = [
+      ...getStudCells(def).map(cell => {
+        const [x, z] = local(cell);
+        return { kind: 'stud' as const, position: [x, h, z] as Vec3, direction: [0, 1, 0] as Vec3 };
+      }),
+      ...getTubeCells(def).map(cell => {
+        const [x, z] = local(cell);
+        return { kind: 'anti-stud' as const, position: [x, 0, z] as Vec3, direction: [0, -1, 0] as Vec3 };
+      }),
+      ...(def.connections ?? []),
+    ];
+    cache.set(def, points);
+  }
+  return points;
+};
+
+// Quarter turns around Y, matching the three.js rotation the scene applies to bricks
+const rotateY = ([x, y, z]: Vec3, rotation: number): Vec3 => {
+  const angle = rotation * Math.PI / 2;
+  const cos = Math.round(Math.cos(angle));
+  const sin = Math.round(Math.sin(angle));
+  return [x * cos + z * sin, y, -x * sin + z * cos];
+};
+
+const toWorldPoint = (brickId: string, placement: BrickPlacement, point: ConnectionPoint): WorldConnectionPoint => {
+  const [x, y, z] = rotateY(point.position, placement.rotation);
+  return {
+    brickId,
+    kind: point.kind,
+    position: [placement.position[0] + x, placement.position[1] + y, placement.position[2] + z],
+    direction: rotateY(point.direction, placement.rotation),
+    local: point,
+  };
+};
+
+// Hole and insert points of a placed part in world space
+export const getTechnicPoints = (brickId: string, placement: BrickPlacement): WorldConnectionPoint[] => {
+  const def = BRICK_CATALOG.find(b => b.id === placement.typeId);
+  if (!def) return [];
+  return getConnectionPoints(def)
+    .filter(p => isHole(p.kind) || isInsert(p.kind))
+    .map(p => toWorldPoint(brickId, placement, p));
+};
+
+const pointKey = ([x, y, z]: Vec3) => `${Math.round(x * 100)},${Math.round(y * 100)},${Math.round(z * 100)}`;
+
+const isParallel = (a: Vec3, b: Vec3) => Math.abs(a[0] * b[0] + a[1] * b[1] + a[2] * b[2]) > 0.99;
+
+const fits = (insert: WorldConnectionPoint, hole: WorldConnectionPoint) =>
+  insert.brickId !== hole.brickId
+  && (FITS[insert.kind]?.includes(hole.kind) ?? false)
+  && isParallel(insert.direction, hole.direction);
+
+export const addTechnicPoints = (index: TechnicIndex, points: WorldConnectionPoint[]) => {
+  for (const point of points) {
+    const map = isHole(point.kind) ? index.holes : index.inserts;
+    const key = pointKey(point.position);
+    if (!map.has(key)) map.set(key, []);
+    map.get(key)!.push(point);
+  }
+};
+
+export const removeTechnicPoints = (index: TechnicIndex, points: WorldConnectionPoint[]) => {
+  for (const point of points) {
+    const map = isHole(point.kind) ? index.holes : index.inserts;
+    const key = pointKey(point.position);
+    const remaining = map.get(key)?.filter(p => p.brickId !== point.brickId) ?? [];
+    if (remaining.length > 0) map.set(key, remaining);
+    else map.delete(key);
+  }
+};
+
+export const buildTechnicIndex = (bricks: PlacedBrick[]): TechnicIndex => {
+  const index: TechnicIndex = { holes: new Map(), inserts: new Map() };
+  bricks.forEach(brick => addTechnicPoints(index, getTechnicPoints(brick.id, brick)));
+  return index;
+};
+
+// Parts engaged with the given points: holes for an insert, inserts for a hole.
+// A part shows up once per engaged point so callers can weigh the connection.
+export const findTechnicPartners = (index: TechnicIndex, points: WorldConnectionPoint[]): string[] => {
+  const partners: string[] = [];
+  for (const point of points) {
+    const key = pointKey(point.position);
+    if (isInsert(point.kind)) {
+      index.holes.get(key)?.forEach(hole => { if (fits(point, hole)) partners.push(hole.brickId); });
+    } else {
+      index.inserts.get(key)?.forEach(insert => { if (fits(insert, point)) partners.push(insert.brickId); });
+    }
+  }
+  return partners;
+};
+
+// Every seated insert, once per insert point
+export const findTechnicEngagements = (index: TechnicIndex): TechnicEngagement[] => {
+  const engagements: TechnicEngagement[] = [];
+  index.inserts.forEach((inserts, key) => {
+    const holes = index.holes.get(key);
+    if (!holes) return;
+    inserts.forEach(insert => holes.forEach(hole => {
+      if (fits(insert, hole)) engagements.push({ insert, hole });
+    }));
+  });
+  return engagements;
+};
+
+// --- Snapping ---
+
+export interface TechnicSnap {
+  position: Vec3;
+  rotation: number;
+}
+
+const distance = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+// Grid position for a computed placement, or null when it falls between layers or studs
+const toGridPosition = ([x, y, z]: Vec3): Vec3 | null => {
+  const snapped: Vec3 = [Math.round(x * 2) / 2, layerToY(toLayer(y)), Math.round(z * 2) / 2];
+  if (snapped[1] < 0 || distance(snapped, [x, y, z]) > 0.01) return null;
+  return snapped;
+};
+
+// Places a part so one of its connectors seats in a free connector of the target part:
+// a pin or axle slides into a hole along the hole's axis, or a hole slides over a
+// protruding insert. The target point nearest the cursor wins; the preferred rotation
+// breaks ties between equally good fits.
+export const findTechnicSnap = (
+  bricks: PlacedBrick[],
+  index: TechnicIndex,
+  occupancy: OccupancyIndex,
+  typeId: string,
+  preferredRotation: number,
+  targetId: string,
+  hitPoint: Vec3
+): TechnicSnap | null => {
+  const def = BRICK_CATALOG.find(b => b.id === typeId);
+  const target = bricks.find(b => b.id === targetId);
+  if (!def || !target) return null;
+
+  const candidatePoints = getConnectionPoints(def).filter(p => isHole(p.kind) || isInsert(p.kind));
+  const freeTargetPoints = getTechnicPoints(target.id, target)
+    .filter(point => findTechnicPartners(index, [point]).length === 0);
+  const h = getPartHeight(def);
+
+  let best: (TechnicSnap & { score: number }) | null = null;
+  for (const targetPoint of freeTargetPoints) {
+    for (let rotation = 0; rotation < 4; rotation++) {
+      for (const point of candidatePoints) {
+        const placed = toWorldPoint('', { typeId, position: [0, 0, 0], rotation }, point);
+        const seats = isInsert(placed.kind) ? fits(placed, targetPoint) : fits(targetPoint, placed);
+        if (!seats) continue;
+
+        const position = toGridPosition([
+          targetPoint.position[0] - placed.position[0],
+          targetPoint.position[1] - placed.position[1],
+          targetPoint.position[2] - placed.position[2],
+        ]);
+        if (!position || !canPlace(occupancy, { typeId, position, rotation })) continue;
+
+        // Pull toward the cursor so an insert sticks out on the side being pointed at
+        const center: Vec3 = [position[0], position[1] + h / 2, position[2]];
+        const score = distance(targetPoint.position, hitPoint)
+          + 0.25 * distance(center, hitPoint)
+          + (rotation === preferredRotation ? 0 : 0.05);
+        if (!best || score < best.score) best = { position, rotation, score };
+      }
+    }
+  }
+
+  return best && { position: best.position, rotation: best.rotation };
+};
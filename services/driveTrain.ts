@@ -0,0 +1,184 @@
+import { BRICK_CATALOG } from '../constants';
+import { PlacedBrick } from '../types';
+import { TechnicIndex, WorldConnectionPoint, buildTechnicIndex, findTechnicEngagements, getTechnicPoints } from './connectionPoints';
+import { getGearRadius } from './partShapes';
+
+type Vec3 = [number, number, number];
+
+// A set of parts turning together: an axle with the gears and bushes locked on it,
+// or a lone gear spinning free
+export interface Rotor {
+  index: number;
+  brickIds: string[];
+  axleIds: string[];
+  axis: Vec3; // Positive world axis; speeds are signed about it (right-hand rule)
+  rpm: number | null; // null when no motor reaches this rotor
+  torqueRatio: number | null; // Output torque per unit of motor torque, ignoring friction
+  jammed: boolean; // Motors or gear loops disagree on the speed
+}
+
+export interface MotorDrive {
+  motorId: string;
+  rpm: number; // Set speed about the motor's own output direction
+  rotor: number | null; // Rotor index of the axle in the output, if any
+}
+
+export interface DriveTrain {
+  rotors: Rotor[];
+  rotorOf: Map<string, number>;
+  motors: MotorDrive[];
+}
+
+interface Gear {
+  rotor: number;
+  teeth: number;
+  center: Vec3;
+}
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const canonicalAxis = (direction: Vec3): Vec3 => direction.map(n => Math.abs(Math.round(n))) as Vec3;
+
+// Gears on parallel axes mesh when they share a plane and their pitch circles touch
+const MESH_TOLERANCE = 0.15;
+
+const meshes = (a: Gear, b: Gear, axis: Vec3) => {
+  const offset: Vec3 = [b.center[0] - a.center[0], b.center[1] - a.center[1], b.center[2] - a.center[2]];
+  const along = dot(offset, axis);
+  if (Math.abs(along) > 0.3) return false;
+  const across = Math.sqrt(Math.max(0, dot(offset, offset) - along * along));
+  return Math.abs(across - getGearRadius(a.teeth) - getGearRadius(b.teeth)) < MESH_TOLERANCE;
+};
+
+const getPart = (brick: PlacedBrick) => BRICK_CATALOG.find(b => b.id === brick.typeId);
+
+// Speed of a motor brick: its own setting, else the part default
+export const getMotorRpm = (brick: PlacedBrick) => brick.rpm ?? getPart(brick)?.motorRpm ?? 0;
+
+// Groups axles, gears and bushes into rotors, meshes gears between rotors and propagates
+// motor speeds through the meshes. Meshing external gears reverse direction and scale
+// speed by the tooth ratio; torque scales the other way.
+export const solveDriveTrain = (bricks: PlacedBrick[], index: TechnicIndex = buildTechnicIndex(bricks)): DriveTrain => {
+  const byId = new Map(bricks.map(b => [b.id, b]));
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id)!;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+
+  // Rotating parts start as their own rotor
+  const axisOf = new Map<string, Vec3>();
+  const gearHoles = new Map<string, WorldConnectionPoint>();
+  for (const brick of bricks) {
+    const kind = getPart(brick)?.shape?.kind;
+    if (kind !== 'axle' && kind !== 'gear' && kind !== 'bush') continue;
+    parent.set(brick.id, brick.id);
+    const [point] = getTechnicPoints(brick.id, brick);
+    if (point) axisOf.set(brick.id, canonicalAxis(point.direction));
+    if (kind === 'gear' && point) gearHoles.set(brick.id, point);
+  }
+
+  // Axles lock whatever sits on them by an axle hole; a motor's hole drives the axle instead
+  const motorOutputs = new Map<string, { axleId: string; direction: Vec3 }>();
+  for (const { insert, hole } of findTechnicEngagements(index)) {
+    if (insert.kind !== 'axle') continue;
+    const holder = byId.get(hole.brickId)!;
+    if (getPart(holder)?.motorRpm !== undefined) {
+      if (!motorOutputs.has(holder.id)) motorOutputs.set(holder.id, { axleId: insert.brickId, direction: hole.direction });
+    } else if (parent.has(holder.id) && hole.kind === 'axle-hole') {
+      parent.set(find(holder.id), find(insert.brickId));
+    }
+  }
+
+  // Number the rotors
+  const rotorOf = new Map<string, number>();
+  const rotors: Rotor[] = [];
+  for (const id of parent.keys()) {
+    const root = find(id);
+    if (!rotorOf.has(root)) {
+      rotorOf.set(root, rotors.length);
+      rotors.push({ index: rotors.length, brickIds: [], axleIds: [], axis: axisOf.get(root) ?? [1, 0, 0], rpm: null, torqueRatio: null, jammed: false });
+    }
+    const rotor = rotors[rotorOf.get(root)!];
+    rotorOf.set(id, rotor.index);
+    rotor.brickIds.push(id);
+    if (getPart(byId.get(id)!)?.shape?.kind === 'axle') rotor.axleIds.push(id);
+  }
+
+  // Gear meshes as rotor graph edges; ratio is the speed factor from `from` to `to`
+  const gears: Gear[] = [...gearHoles].map(([id, point]) => ({
+    rotor: rotorOf.get(id)!,
+    teeth: getPart(byId.get(id)!)!.shape!.teeth ?? 8,
+    center: point.position,
+  }));
+  const links = new Map<number, { to: number; ratio: number }[]>();
+  const link = (from: number, to: number, ratio: number) => {
+    if (!links.has(from)) links.set(from, []);
+    links.get(from)!.push({ to, ratio });
+  };
+  for (let i = 0; i < gears.length; i++) {
+    for (let j = i + 1; j < gears.length; j++) {
+      const a = gears[i];
+      const b = gears[j];
+      const axis = rotors[a.rotor].axis;
+      if (a.rotor === b.rotor || dot(axis, rotors[b.rotor].axis) < 0.99 || !meshes(a, b, axis)) continue;
+      link(a.rotor, b.rotor, -a.teeth / b.teeth);
+      link(b.rotor, a.rotor, -b.teeth / a.teeth);
+    }
+  }
+
+  // Seed rotors from motors, then flood each connected train
+  const motors: MotorDrive[] = [];
+  const seeds = new Map<number, number[]>();
+  for (const brick of bricks) {
+    if (getPart(brick)?.motorRpm === undefined) continue;
+    const output = motorOutputs.get(brick.id);
+    const rotor = output ? rotorOf.get(output.axleId)! : null;
+    const rpm = getMotorRpm(brick);
+    motors.push({ motorId: brick.id, rpm, rotor });
+    if (output && rotor !== null) {
+      const signed = rpm * Math.sign(dot(output.direction, rotors[rotor].axis));
+      seeds.set(rotor, [...(seeds.get(rotor) ?? []), signed]);
+    }
+  }
+
+  const visited = new Set<number>();
+  for (const [start, starts] of seeds) {
+    if (visited.has(start)) continue;
+    const reference = Math.abs(starts[0]);
+    const speed = new Map<number, number>([[start, starts[0]]]);
+    const train: number[] = [];
+    let jammed = false;
+    const queue = [start];
+    visited.add(start);
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      train.push(current);
+      const own = speed.get(current)!;
+      // Every motor on this train must agree with the speed propagated so far
+      seeds.get(current)?.forEach(s => { if (Math.abs(s - own) > 1e-6) jammed = true; });
+      for (const { to, ratio } of links.get(current) ?? []) {
+        const expected = own * ratio;
+        if (speed.has(to)) {
+          if (Math.abs(speed.get(to)! - expected) > 1e-6 * Math.max(1, Math.abs(expected))) jammed = true;
+        } else {
+          speed.set(to, expected);
+          visited.add(to);
+          queue.push(to);
+        }
+      }
+    }
+
+    for (const rotorIndex of train) {
+      const rotor = rotors[rotorIndex];
+      rotor.jammed = jammed;
+      rotor.rpm = jammed ? 0 : speed.get(rotorIndex)!;
+      rotor.torqueRatio = jammed || rotor.rpm === 0 ? null : reference / Math.abs(rotor.rpm);
+    }
+  }
+
+  return { rotors, rotorOf, motors };
+};
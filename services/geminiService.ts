@@ -1,37 +1,71 @@
-import { GoogleGenAI, Type } from '@google/genai';
-import { BRICK_CATALOG, COLORS } from '../constants';
-import { PlacedBrick } from '../types';
-import { v4 as uuidv4 } from 'uuid';
+import { ApiError, GoogleGenAI, Type } from '@google/genai';
+import { BRICK_CATALOG, COLORS, PLATE_HEIGHT } from '../constants';
+import { GeneratedPart } from './buildRepair';
+import { AiChatTurn, BuildEdit, parseBuildEdit } from './buildEdit';
+import { AiProvider, AiProviderError } from './aiProvider';
+import { getLayerCount } from './units';
 
 const getClient = () => {
     const apiKey = process.env.API_KEY;
-    if (!apiKey) return null;
+    if (!apiKey) throw new AiProviderError('missing-key', 'No Gemini API key is set (GEMINI_API_KEY in .env.local).');
     return new GoogleGenAI({ apiKey });
 };
 
-export const generateBuildFromPrompt = async (prompt: string): Promise<PlacedBrick[] | null> => {
-    const ai = getClient();
-    if (!ai) {
-        console.error("API Key missing");
-        return null;
+// Sorts SDK and network failures into the provider error kinds
+const toProviderError = (error: unknown): AiProviderError => {
+    if (error instanceof AiProviderError) return error;
+    if (error instanceof ApiError) {
+        if (error.status === 429) return new AiProviderError('quota', 'The Gemini quota is used up for now.');
+        if (error.status === 401 || error.status === 403 || /api key/i.test(error.message)) {
+            return new AiProviderError('missing-key', 'The Gemini API key was rejected.');
+        }
     }
+    console.error("Gemini Error:", error);
+    return new AiProviderError('failed', 'Gemini could not be reached. Please try again.');
+};
 
-    const availableParts = BRICK_CATALOG.map(b => b.id).join(', ');
-    const availableColors = COLORS.map(c => c.name).join(', ');
+const parseResponse = (text: string | undefined) => {
+    try {
+        return JSON.parse(text ?? '');
+    } catch {
+        throw new AiProviderError('schema', 'Gemini answered with something other than JSON.');
+    }
+};
 
-    const systemInstruction = `
-    You are a LEGO Master Builder expert system. 
-    Your goal is to generate a list of bricks to build a user's request in a 3D grid.
-    
+const COORDINATE_RULES = `
     The coordinate system:
     - Y is Up/Down. Ground is Y=0.
     - X is Left/Right.
     - Z is Front/Back.
-    - Units are based on standard LEGO studs. 
-    - Standard bricks are 1.2 units high. Plates are 0.4 units high.
-    
-    Available Parts IDs: ${availableParts}
-    Available Color Names: ${availableColors} (Use the closest hex match or name if hex unknown, but prefer provided names)
+    - Units are based on standard LEGO studs: one stud is 1 unit along X and Z.
+    - Heights go in whole plates of ${PLATE_HEIGHT} units. A plate is 1 plate high, a standard brick 3 plates (1.2 units).
+    - A part's Y is the height of its bottom face, always a multiple of ${PLATE_HEIGHT}. A part resting on another has Y equal to the lower part's Y plus its height.
+    - X and Z are the center of the part's footprint: whole numbers for odd sizes (1, 3) and halves (0.5, 1.5) for even sizes (2, 4).
+    - Rotation 1 or 3 swaps a part's width and depth.`;
+
+const describeCatalog = () => `
+    Available Parts IDs: ${BRICK_CATALOG.map(b => `${b.id} (${b.width}x${b.depth}, ${getLayerCount(b)} plates high)`).join(', ')}
+    Available Color IDs: ${COLORS.map(c => `${c.id} (${c.name})`).join(', ')}`;
+
+const PART_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        partId: { type: Type.STRING, description: "One of the available part IDs" },
+        x: { type: Type.NUMBER, description: "X grid position (center)" },
+        y: { type: Type.NUMBER, description: `Y of the part's bottom face, a multiple of ${PLATE_HEIGHT}` },
+        z: { type: Type.NUMBER, description: "Z grid position (center)" },
+        rotation: { type: Type.INTEGER, description: "0, 1, 2, or 3 (multipliers of 90 degrees)" },
+        colorId: { type: Type.STRING, description: "One of the available color IDs (e.g. 'red', 'blue')" }
+    },
+    required: ["partId", "x", "y", "z", "rotation", "colorId"]
+};
+
+export const generateBuildFromPrompt = async (prompt: string, signal: AbortSignal): Promise<GeneratedPart[]> => {
+    const systemInstruction = `
+    You are a LEGO Master Builder expert system. 
+    Your goal is to generate a list of bricks to build a user's request in a 3D grid.
+    ${COORDINATE_RULES}
+    ${describeCatalog()}
 
     Rules:
     1. Only use the provided Part IDs.
@@ -43,52 +77,112 @@ export const generateBuildFromPrompt = async (prompt: string): Promise<PlacedBri
     `;
 
     try {
-        const response = await ai.models.generateContent({
+        const response = await getClient().models.generateContent({
             model: 'gemini-2.5-flash',
             contents: `Build a ${prompt}`,
             config: {
+                abortSignal: signal,
+                systemInstruction: systemInstruction,
+                responseMimeType: 'application/json',
+                responseSchema: { type: Type.ARRAY, items: PART_SCHEMA }
+            }
+        });
+
+        const rawData = parseResponse(response.text);
+        if (!Array.isArray(rawData)) throw new AiProviderError('schema', 'Gemini did not answer with a list of parts.');
+        // Checked and fixed up by repairGeneratedBuild before anything reaches the scene
+        return rawData as GeneratedPart[];
+
+    } catch (error) {
+        throw signal.aborted ? signal.reason : toProviderError(error);
+    }
+};
+
+// One turn of a conversation about the current scene. The model sees earlier turns and the
+// scene as it is now, and answers with a diff against it rather than a whole new build.
+export const editBuildFromPrompt = async (prompt: string, sceneText: string, chat: AiChatTurn[], signal: AbortSignal): Promise<BuildEdit> => {
+    const systemInstruction = `
+    You are a LEGO Master Builder helping a user change the build they have in front of them.
+    ${COORDINATE_RULES}
+    ${describeCatalog()}
+
+    The current scene is listed one part per line as:
+    <ref> <partId> <colorId> <x> <y> <z> r<rotation> h<height in plates>
+
+    Rules:
+    1. Answer with only the changes needed, never the whole build again.
+    2. Name existing parts by their ref (e.g. "b12"). Refs are only valid for the scene sent with the latest message.
+    3. "move" offsets are whole studs for dx and dz and whole plates for dy.
+    4. New parts in "add" follow the same rules as a new build: only the provided Part IDs, resting on the ground or on other parts.
+    5. Put a short, friendly summary of what you changed in "reply". If the request is unclear, ask in "reply" and change nothing.
+    `;
+
+    const contents = [
+        ...chat.map(turn => ({ role: turn.role === 'user' ? 'user' : 'model', parts: [{ text: turn.text }] })),
+        { role: 'user', parts: [{ text: `Current scene:\n${sceneText}\n\nRequest: ${prompt}` }] }
+    ];
+
+    try {
+        const response = await getClient().models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents,
+            config: {
+                abortSignal: signal,
                 systemInstruction: systemInstruction,
                 responseMimeType: 'application/json',
                 responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            partId: { type: Type.STRING, description: "One of the available part IDs" },
-                            x: { type: Type.NUMBER, description: "X grid position (center)" },
-                            y: { type: Type.NUMBER, description: "Y height position" },
-                            z: { type: Type.NUMBER, description: "Z grid position (center)" },
-                            rotation: { type: Type.INTEGER, description: "0, 1, 2, or 3 (multipliers of 90 degrees)" },
-                            colorId: { type: Type.STRING, description: "One of the available color IDs (e.g. 'red', 'blue')" }
+                    type: Type.OBJECT,
+                    properties: {
+                        reply: { type: Type.STRING, description: "Short summary of the change for the user" },
+                        add: { type: Type.ARRAY, items: PART_SCHEMA },
+                        remove: { type: Type.ARRAY, items: { type: Type.STRING, description: "Ref of a part to remove" } },
+                        recolor: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    ref: { type: Type.STRING },
+                                    colorId: { type: Type.STRING, description: "One of the available color IDs" }
+                                },
+                                required: ["ref", "colorId"]
+                            }
                         },
-                        required: ["partId", "x", "y", "z", "rotation", "colorId"]
-                    }
+                        move: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    ref: { type: Type.STRING },
+                                    dx: { type: Type.INTEGER, description: "Studs along X" },
+                                    dy: { type: Type.INTEGER, description: "Plates along Y" },
+                                    dz: { type: Type.INTEGER, description: "Studs along Z" }
+                                },
+                                required: ["ref", "dx", "dy", "dz"]
+                            }
+                        }
+                    },
+                    required: ["reply"]
                 }
             }
         });
 
-        const rawData = JSON.parse(response.text);
-        
-        // Convert to application state format
-        const bricks: PlacedBrick[] = rawData.map((item: any) => {
-            // Validate Color
-            let color = COLORS.find(c => c.id === item.colorId)?.hex || COLORS[0].hex;
-            // Validate Part
-            const part = BRICK_CATALOG.find(b => b.id === item.partId) || BRICK_CATALOG[0];
-
-            return {
-                id: uuidv4(),
-                typeId: part.id,
-                position: [item.x, item.y, item.z],
-                rotation: item.rotation || 0,
-                color: color
-            };
-        });
-
-        return bricks;
+        const rawData = parseResponse(response.text);
+        if (!rawData || typeof rawData !== 'object' || Array.isArray(rawData)) {
+            throw new AiProviderError('schema', 'Gemini did not answer with a change to the build.');
+        }
+        // Refs and colors are checked by applyBuildEdit, added parts repaired like a new build
+        return parseBuildEdit(rawData);
 
     } catch (error) {
-        console.error("Gemini Build Error:", error);
-        return null;
+        throw signal.aborted ? signal.reason : toProviderError(error);
     }
 };
+
+export const geminiProvider: AiProvider = {
+    id: 'gemini',
+    name: 'Gemini',
+    description: 'Google Gemini; builds anything you describe and edits by conversation. Needs an API key.',
+    isConfigured: () => !!process.env.API_KEY,
+    generateBuild: generateBuildFromPrompt,
+    editBuild: editBuildFromPrompt,
+};
@@ -0,0 +1,138 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BRICK_CATALOG } from '../constants';
+import { PlacedBrick } from '../types';
+import { buildOccupancyIndex, canPlace, getBrickBounds, getFootprint } from './occupancyGrid';
+import { layerToY, toLayer } from './units';
+import { ConnectionGraph } from './connectionGraph';
+
+// Offsets are whole studs on X/Z and whole plate layers on Y
+export type StudOffset = [number, number, number];
+
+// Checks moved bricks against everything outside the group, and against each other
+const fitsScene = (bricks: PlacedBrick[], movedIds: Set<string>, moved: PlacedBrick[]) => {
+  const others = buildOccupancyIndex(bricks.filter(b => !movedIds.has(b.id)));
+  if (moved.some(b => b.position[1] < 0)) return false;
+  return moved.every(b => canPlace(others, b));
+};
+
+// Stud-cell bounding box of the selection, as [minX, minZ, maxX, maxZ] inclusive
+export const getSelectionBounds = (bricks: PlacedBrick[]): [number, number, number, number] | null => {
+  let bounds: [number, number, number, number] | null = null;
+  for (const brick of bricks) {
+    const b = getBrickBounds(brick);
+    if (!b) continue;
+    const maxX = b.minX + b.width - 1;
+    const maxZ = b.minZ + b.depth - 1;
+    bounds = bounds
+      ? [Math.min(bounds[0], b.minX), Math.min(bounds[1], b.minZ), Math.max(bounds[2], maxX), Math.max(bounds[3], maxZ)]
+      : [b.minX, b.minZ, maxX, maxZ];
+  }
+  return bounds;
+};
+
+// Pivot on a stud center so odd and even footprints both land back on the grid
+export const getSelectionPivot = (bricks: PlacedBrick[]): [number, number] => {
+  const bounds = getSelectionBounds(bricks);
+  if (!bounds) return [0, 0];
+  return [Math.round((bounds[0] + bounds[2]) / 2), Math.round((bounds[1] + bounds[3]) / 2)];
+};
+
+// Returns the updated scene, or null when the move would collide or go below ground
+export const moveBricks = (bricks: PlacedBrick[], ids: Set<string>, offset: StudOffset): PlacedBrick[] | null => {
+  const [dx, dLayer, dz] = offset;
+  const moved = bricks
+    .filter(b => ids.has(b.id))
+    .map(b => ({
+      ...b,
+      position: [b.position[0] + dx, layerToY(toLayer(b.position[1]) + dLayer), b.position[2] + dz] as [number, number, number]
+    }));
+  if (!fitsScene(bricks, ids, moved)) return null;
+
+  const byId = new Map(moved.map(b => [b.id, b]));
+  return bricks.map(b => byId.get(b.id) || b);
+};
+
+// Rotates the group in 90° steps around the Y axis through its pivot
+export const rotateBricks = (bricks: PlacedBrick[], ids: Set<string>, steps: number): PlacedBrick[] | null => {
+  const group = bricks.filter(b => ids.has(b.id));
+  const [px, pz] = getSelectionPivot(group);
+  const turns = ((steps % 4) + 4) % 4;
+
+  const rotated = group.map(b => {
+    let dx = b.position[0] - px;
+    let dz = b.position[2] - pz;
+    // Matches three.js: +90° around Y maps (x, z) to (z, -x)
+    for (let i = 0; i < turns; i++) [dx, dz] = [dz, -dx];
+    return {
+      ...b,
+      position: [px + dx, b.position[1], pz + dz] as [number, number, number],
+      rotation: (b.rotation + turns) % 4
+    };
+  });
+  if (!fitsScene(bricks, ids, rotated)) return null;
+
+  const byId = new Map(rotated.map(b => [b.id, b]));
+  return bricks.map(b => byId.get(b.id) || b);
+};
+
+// Re-centers one axis on the stud cell the brick turns around.
+// Same rule as pointer snapping: odd sizes sit on cell centers, even sizes on grid lines.
+const snapAxis = (anchorCell: number, size: number) => anchorCell + (size % 2 === 0 ? 0.5 : 0);
+
+// Turns a single brick in place around the stud cell at (or just before) its center
+export const rotateInPlace = (bricks: PlacedBrick[], brickId: string, steps: number): PlacedBrick[] | null => {
+  const brick = bricks.find(b => b.id === brickId);
+  const def = brick && BRICK_CATALOG.find(b => b.id === brick.typeId);
+  if (!brick || !def) return null;
+
+  const rotation = (((brick.rotation + steps) % 4) + 4) % 4;
+  const [width, depth] = getFootprint(def, rotation);
+  const rotated: PlacedBrick = {
+    ...brick,
+    rotation,
+    position: [
+      snapAxis(Math.floor(brick.position[0]), width),
+      brick.position[1],
+      snapAxis(Math.floor(brick.position[2]), depth)
+    ]
+  };
+  if (!fitsScene(bricks, new Set([brickId]), [rotated])) return null;
+
+  return bricks.map(b => b.id === brickId ? rotated : b);
+};
+
+// Copies the group next to itself along X, sliding further until it finds room
+export const duplicateBricks = (bricks: PlacedBrick[], ids: Set<string>): PlacedBrick[] | null => {
+  const group = bricks.filter(b => ids.has(b.id));
+  const bounds = getSelectionBounds(group);
+  if (!bounds) return null;
+
+  const index = buildOccupancyIndex(bricks);
+  const span = bounds[2] - bounds[0] + 1;
+  for (let shift = span; shift < span + 50; shift++) {
+    const copies = group.map(b => ({
+      ...b,
+      id: uuidv4(),
+      position: [b.position[0] + shift, b.position[1], b.position[2]] as [number, number, number]
+    }));
+    if (copies.every(b => canPlace(index, b))) return copies;
+  }
+  return null;
+};
+
+export const recolorBricks = (bricks: PlacedBrick[], ids: Set<string>, colorId: string): PlacedBrick[] =>
+  bricks.map(b => ids.has(b.id) ? { ...b, colorId } : b);
+
+export const deleteBricks = (bricks: PlacedBrick[], ids: Set<string>): PlacedBrick[] =>
+  bricks.filter(b => !ids.has(b.id));
+
+// Grows a selection to every brick clutched to it, directly or through others
+export const expandToConnected = (graph: ConnectionGraph, ids: Iterable<string>): Set<string> => {
+  const result = new Set<string>();
+  for (const id of ids) {
+    const componentIndex = graph.componentOf.get(id);
+    if (componentIndex === undefined) continue;
+    graph.components[componentIndex].forEach(member => result.add(member));
+  }
+  return result;
+};
@@ -0,0 +1,133 @@
+import { PlacedBrick } from '../types';
+
+// History stores what changed per edit instead of full scene snapshots,
+// so memory grows with edit size rather than model size × edit count.
+
+type BrickTransform = Pick<PlacedBrick, 'position' | 'rotation'>;
+type BrickSettings = Pick<PlacedBrick, 'rpm'>;
+
+export type BrickOp =
+  | { type: 'add'; bricks: PlacedBrick[] }
+  | { type: 'remove'; bricks: PlacedBrick[] }
+  | { type: 'recolor'; changes: { id: string; from: string; to: string }[] }
+  | { type: 'transform'; changes: { id: string; from: BrickTransform; to: BrickTransform }[] }
+  | { type: 'configure'; changes: { id: string; from: BrickSettings; to: BrickSettings }[] };
+
+// One undoable step; all of its ops are applied and reverted together
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  ops: BrickOp[];
+  timestamp: number;
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[];
+  index: number; // Number of entries currently applied
+  nextId: number;
+}
+
+export const createHistory = (): HistoryState => ({ entries: [], index: 0, nextId: 1 });
+
+export const canUndo = (history: HistoryState) => history.index > 0;
+export const canRedo = (history: HistoryState) => history.index < history.entries.length;
+
+const invertOp = (op: BrickOp): BrickOp => {
+  switch (op.type) {
+    case 'add': return { type: 'remove', bricks: op.bricks };
+    case 'remove': return { type: 'add', bricks: op.bricks };
+    case 'recolor': return { type: 'recolor', changes: op.changes.map(c => ({ id: c.id, from: c.to, to: c.from })) };
+    case 'transform': return { type: 'transform', changes: op.changes.map(c => ({ id: c.id, from: c.to, to: c.from })) };
+    case 'configure': return { type: 'configure', changes: op.changes.map(c => ({ id: c.id, from: c.to, to: c.from })) };
+  }
+};
+
+const applyOp = (bricks: PlacedBrick[], op: BrickOp): PlacedBrick[] => {
+  switch (op.type) {
+    case 'add':
+      return [...bricks, ...op.bricks];
+    case 'remove': {
+      const ids = new Set(op.bricks.map(b => b.id));
+      return bricks.filter(b => !ids.has(b.id));
+    }
+    case 'recolor': {
+      const colors = new Map(op.changes.map(c => [c.id, c.to]));
+      return bricks.map(b => colors.has(b.id) ? { ...b, colorId: colors.get(b.id)! } : b);
+    }
+    case 'transform': {
+      const transforms = new Map(op.changes.map(c => [c.id, c.to]));
+      return bricks.map(b => transforms.has(b.id) ? { ...b, ...transforms.get(b.id)! } : b);
+    }
+    case 'configure': {
+      const settings = new Map(op.changes.map(c => [c.id, c.to]));
+      return bricks.map(b => settings.has(b.id) ? { ...b, ...settings.get(b.id)! } : b);
+    }
+  }
+};
+
+export const applyOps = (bricks: PlacedBrick[], ops: BrickOp[]): PlacedBrick[] =>
+  ops.reduce(applyOp, bricks);
+
+export const revertOps = (bricks: PlacedBrick[], ops: BrickOp[]): PlacedBrick[] =>
+  [...ops].reverse().map(invertOp).reduce(applyOp, bricks);
+
+const samePosition = (a: PlacedBrick['position'], b: PlacedBrick['position']) =>
+  a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+
+// Turns a before/after pair of scenes into ops. Unchanged bricks keep their object
+// identity through immutable updates, so the common case is a reference check.
+export const diffBricks = (before: PlacedBrick[], after: PlacedBrick[]): BrickOp[] => {
+  const previous = new Map(before.map(b => [b.id, b]));
+  const added: PlacedBrick[] = [];
+  const recolored: { id: string; from: string; to: string }[] = [];
+  const transformed: { id: string; from: BrickTransform; to: BrickTransform }[] = [];
+  const configured: { id: string; from: BrickSettings; to: BrickSettings }[] = [];
+
+  for (const brick of after) {
+    const old = previous.get(brick.id);
+    previous.delete(brick.id);
+    if (!old) {
+      added.push(brick);
+      continue;
+    }
+    if (old === brick) continue;
+    if (old.colorId !== brick.colorId) recolored.push({ id: brick.id, from: old.colorId, to: brick.colorId });
+    if (old.rotation !== brick.rotation || !samePosition(old.position, brick.position)) {
+      transformed.push({
+        id: brick.id,
+        from: { position: old.position, rotation: old.rotation },
+        to: { position: brick.position, rotation: brick.rotation }
+      });
+    }
+    if (old.rpm !== brick.rpm) configured.push({ id: brick.id, from: { rpm: old.rpm }, to: { rpm: brick.rpm } });
+  }
+
+  const ops: BrickOp[] = [];
+  if (previous.size > 0) ops.push({ type: 'remove', bricks: [...previous.values()] });
+  if (recolored.length > 0) ops.push({ type: 'recolor', changes: recolored });
+  if (transformed.length > 0) ops.push({ type: 'transform', changes: transformed });
+  if (configured.length > 0) ops.push({ type: 'configure', changes: configured });
+  if (added.length > 0) ops.push({ type: 'add', bricks: added });
+  return ops;
+};
+
+// Drops any redo branch and the oldest entries beyond maxDepth
+export const pushEntry = (history: HistoryState, label: string, ops: BrickOp[], maxDepth: number): HistoryState => {
+  const entry: HistoryEntry = { id: history.nextId, label, ops, timestamp: Date.now() };
+  const entries = [...history.entries.slice(0, history.index), entry];
+  const trimmed = entries.length > maxDepth ? entries.slice(entries.length - maxDepth) : entries;
+  return { entries: trimmed, index: trimmed.length, nextId: history.nextId + 1 };
+};
+
+// Moves the history to `target` applied entries, replaying or reverting along the way
+export const travelTo = (
+  history: HistoryState,
+  bricks: PlacedBrick[],
+  target: number
+): { history: HistoryState; bricks: PlacedBrick[] } => {
+  const clamped = Math.max(0, Math.min(history.entries.length, target));
+  let result = bricks;
+  for (let i = history.index - 1; i >= clamped; i--) result = revertOps(result, history.entries[i].ops);
+  for (let i = history.index; i < clamped; i++) result = applyOps(result, history.entries[i].ops);
+  return { history: { ...history, index: clamped }, bricks: result };
+};
@@ -0,0 +1,111 @@
+import { COLORS } from '../constants';
+import { PlacedBrick } from '../types';
+import { LayerGrid, getPackingParts, packLayer, packVolume } from './brickPacking';
+import { Rgb, findNearestRgb, toRgb } from './colors';
+import { PLATES_PER_BRICK } from './units';
+
+// Pictures to builds, entirely in the browser: the image is scaled to one pixel per stud,
+// matched to the palette, then either laid flat as a plate mosaic or raised into columns
+// of bricks whose height follows the brightness.
+
+export type ImageBuildMode = 'mosaic' | 'heightmap';
+
+export interface ImageBuildOptions {
+  mode: ImageBuildMode;
+  width: number; // Studs across; the height follows the image's aspect ratio
+  dither: boolean;
+  maxHeight: number; // Heightmap only: bricks for the brightest pixels
+}
+
+// RGBA pixels, as in ImageData
+export interface PixelGrid {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImageBuildOptions = { mode: 'mosaic', width: 32, dither: true, maxHeight: 6 };
+export const MAX_IMAGE_STUDS = 96;
+
+// Pixels more transparent than this are left empty
+const ALPHA_CUTOFF = 128;
+
+// Scales the image so each pixel is one stud, averaging the pixels it covers
+export const loadImagePixels = async (file: Blob, width: number): Promise<PixelGrid> => {
+  const bitmap = await createImageBitmap(file);
+  const columns = Math.max(1, Math.min(MAX_IMAGE_STUDS, Math.round(width)));
+  const rows = Math.max(1, Math.min(MAX_IMAGE_STUDS, Math.round(bitmap.height * columns / bitmap.width)));
+  const canvas = document.createElement('canvas');
+  canvas.width = columns;
+  canvas.height = rows;
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, columns, rows);
+  bitmap.close();
+  return { width: columns, height: rows, data: ctx.getImageData(0, 0, columns, rows).data };
+};
+
+// Floyd-Steinberg weights: right, below-left, below, below-right
+const DIFFUSION: [number, number, number][] = [[1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16]];
+
+// Palette color for every pixel. With dithering, each pixel's rounding error is passed on
+// to its unvisited neighbors, so shades between palette colors come out as a mix of both.
+export const quantizeImage = (pixels: PixelGrid, dither: boolean): LayerGrid => {
+  const { width, height, data } = pixels;
+  const palette = COLORS.filter(c => (c.finish ?? 'solid') === 'solid');
+  const values = Float32Array.from({ length: width * height * 3 }, (_, i) => data[Math.floor(i / 3) * 4 + (i % 3)]);
+  const isOpaque = (x: number, y: number) => data[(y * width + x) * 4 + 3] >= ALPHA_CUTOFF;
+  const grid: LayerGrid = [];
+
+  for (let y = 0; y < height; y++) {
+    const row: (string | null)[] = [];
+    for (let x = 0; x < width; x++) {
+      if (!isOpaque(x, y)) {
+        row.push(null);
+        continue;
+      }
+      const i = (y * width + x) * 3;
+      const wanted = [values[i], values[i + 1], values[i + 2]].map(v => Math.max(0, Math.min(255, v))) as Rgb;
+      const color = findNearestRgb(wanted, palette);
+      row.push(color.id);
+      if (!dither) continue;
+
+      const got = toRgb(color.hex);
+      const error = wanted.map((v, k) => v - got[k]);
+      DIFFUSION.forEach(([dx, dy, weight]) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny >= height || !isOpaque(nx, ny)) return;
+        const j = (ny * width + nx) * 3;
+        for (let k = 0; k < 3; k++) values[j + k] += error[k] * weight;
+      });
+    }
+    grid.push(row);
+  }
+  return grid;
+};
+
+// Perceived brightness, 0 to 1
+const luminance = (data: Uint8ClampedArray, index: number) =>
+  (0.2126 * data[index] + 0.7152 * data[index + 1] + 0.0722 * data[index + 2]) / 255;
+
+// Bricks per column for the heightmap: at least one, up to maxHeight for white
+export const getColumnHeights = (pixels: PixelGrid, maxHeight: number): number[][] =>
+  Array.from({ length: pixels.height }, (_, y) => Array.from({ length: pixels.width }, (_, x) =>
+    Math.max(1, Math.round(luminance(pixels.data, (y * pixels.width + x) * 4) * maxHeight))));
+
+// The finished build, lying on the ground centered on the origin with the top of the
+// image toward the back (-Z)
+export const buildFromImage = (pixels: PixelGrid, options: ImageBuildOptions): PlacedBrick[] => {
+  const colors = quantizeImage(pixels, options.dither);
+  const origin: [number, number] = [-Math.floor(pixels.width / 2), -Math.floor(pixels.height / 2)];
+
+  if (options.mode === 'mosaic') return packLayer(colors, 0, origin, getPackingParts('plate'));
+
+  // Columns in plate layers, so bricks are stacked with their seams alternating
+  const heights = getColumnHeights(pixels, options.maxHeight);
+  const volume = Array.from({ length: options.maxHeight * PLATES_PER_BRICK }, (_, layer) =>
+    colors.map((row, y) => row.map((colorId, x) => colorId && heights[y][x] * PLATES_PER_BRICK > layer ? colorId : null)));
+  return packVolume(volume, 0, origin, getPackingParts('basic'));
+};
@@ -0,0 +1,139 @@
+import { BRICK_CATALOG } from '../constants';
+import { PlacedBrick } from '../types';
+import { buildConnectionGraph, GROUND_ID } from './connectionGraph';
+import { getColorHex } from './colors';
+import { getBrickBounds } from './occupancyGrid';
+
+export interface BuildStep {
+  brickIds: string[];
+  layer: number; // Plate layer the step's bricks sit on
+}
+
+export interface StepPart {
+  typeId: string;
+  name: string;
+  colorId: string;
+  count: number;
+}
+
+export const DEFAULT_PARTS_PER_STEP = 6;
+
+// Orders bricks into steps, lowest layer first. A brick only becomes available once
+// something it clutches to is already built (the ground counts), so overhangs and
+// parts hanging under a ledge come after what holds them.
+export const generateBuildSteps = (bricks: PlacedBrick[], maxPartsPerStep = DEFAULT_PARTS_PER_STEP): BuildStep[] => {
+  const graph = buildConnectionGraph(bricks);
+  const layerOf = new Map<string, number>();
+  const centerOf = new Map<string, [number, number]>();
+  for (const brick of bricks) {
+    const bounds = getBrickBounds(brick);
+    layerOf.set(brick.id, bounds ? bounds.baseLayer : 0);
+    centerOf.set(brick.id, [brick.position[0], brick.position[2]]);
+  }
+
+  const placed = new Set<string>();
+  const remaining = new Set(bricks.map(b => b.id));
+  const steps: BuildStep[] = [];
+
+  const isReady = (id: string) => {
+    const neighbours = graph.edges.get(id);
+    // Unconnected bricks (unknown parts, floating pieces) are placed by height alone
+    if (!neighbours || neighbours.size === 0) return true;
+    for (const neighbour of neighbours.keys()) {
+      if (neighbour === GROUND_ID || placed.has(neighbour)) return true;
+    }
+    return false;
+  };
+
+  while (remaining.size > 0) {
+    let ready = [...remaining].filter(isReady);
+    // Only a cycle of mutually hanging parts gets here; release the lowest to keep going
+    if (ready.length === 0) ready = [...remaining];
+
+    const layer = Math.min(...ready.map(id => layerOf.get(id)!));
+    const batch = ready
+      .filter(id => layerOf.get(id) === layer)
+      // Sweep front-to-back, left-to-right so each step covers a compact area
+      .sort((a, b) => centerOf.get(a)![1] - centerOf.get(b)![1] || centerOf.get(a)![0] - centerOf.get(b)![0])
+      .slice(0, maxPartsPerStep);
+
+    batch.forEach(id => {
+      placed.add(id);
+      remaining.delete(id);
+    });
+    steps.push({ brickIds: batch, layer });
+  }
+
+  return steps;
+};
+
+// Parts needed for one step, grouped by part and color for the callout box
+export const getStepParts = (bricks: PlacedBrick[], step: BuildStep): StepPart[] => {
+  const ids = new Set(step.brickIds);
+  const parts = new Map<string, StepPart>();
+  for (const brick of bricks) {
+    if (!ids.has(brick.id)) continue;
+    const key = `${brick.typeId}|${brick.colorId}`;
+    const existing = parts.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      const def = BRICK_CATALOG.find(b => b.id === brick.typeId);
+      parts.set(key, { typeId: brick.typeId, name: def?.name ?? brick.typeId, colorId: brick.colorId, count: 1 });
+    }
+  }
+  return [...parts.values()];
+};
+
+// --- Booklet ---
+
+export interface BookletPage {
+  image: string | null; // Scene render for the step
+  parts: (StepPart & { thumbnail: string | null })[];
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Self-contained HTML with one step per printed page; print to PDF from the browser
+export const buildBookletHtml = (title: string, pages: BookletPage[]): string => {
+  const pageHtml = pages.map((page, i) => `
+  <section class="page">
+    <header><span class="step">${i + 1}</span><span class="of">/ ${pages.length}</span></header>
+    <div class="callout">
+      ${page.parts.map(part => `
+      <div class="part">
+        ${part.thumbnail ? `<img src="${part.thumbnail}" alt="${escapeHtml(part.name)}">` : `<div class="swatch" style="background:${getColorHex(part.colorId)}"></div>`}
+        <span>${part.count}x</span>
+      </div>`).join('')}
+    </div>
+    ${page.image ? `<img class="render" src="${page.image}" alt="Step ${i + 1}">` : ''}
+  </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(title)} – Building Instructions</title>
+<style>
+  body { margin: 0; font-family: system-ui, sans-serif; background: #f3f4f6; }
+  .page { width: 190mm; min-height: 260mm; margin: 10mm auto; padding: 10mm; background: #fff; box-sizing: border-box; page-break-after: always; position: relative; }
+  .cover { display: flex; align-items: center; justify-content: center; font-size: 28pt; font-weight: 800; }
+  header { font-weight: 800; }
+  .step { font-size: 36pt; }
+  .of { font-size: 14pt; color: #9ca3af; margin-left: 4pt; }
+  .callout { display: inline-flex; flex-wrap: wrap; gap: 8pt; border: 2pt solid #93c5fd; background: #eff6ff; border-radius: 6pt; padding: 6pt; margin: 6pt 0; }
+  .part { display: flex; flex-direction: column; align-items: center; font-weight: 700; font-size: 11pt; }
+  .part img { width: 64px; height: 64px; }
+  .swatch { width: 40px; height: 24px; border-radius: 3px; margin: 20px 12px; }
+  .render { display: block; width: 100%; margin-top: 8pt; }
+  @media print { body { background: none; } .page { margin: 0; } }
+</style>
+</head>
+<body>
+  <section class="page cover">${escapeHtml(title)}</section>
+  ${pageHtml}
+</body>
+</html>
+`;
+};
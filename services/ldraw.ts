@@ -0,0 +1,309 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BRICK_CATALOG, COLORS, PLATE_HEIGHT } from '../constants';
+import { BuildMetadata, PlacedBrick } from '../types';
+import { getLayerCount } from './units';
+import { findNearestColor, getColor } from './colors';
+
+// LDraw units: a stud is 20 LDU wide, a plate 8 LDU high, so one world unit is 20 LDU.
+// LDraw points -Y up; we flip Y and Z (a 180° turn about X) to keep both frames right-handed.
+const LDU_PER_UNIT = 20;
+const LDU_PER_LAYER = PLATE_HEIGHT * LDU_PER_UNIT;
+
+interface LDrawPartMapping {
+  file: string;
+  // Quarter turns from our part orientation to the LDraw one. Our 1xN/2x4 parts run
+  // along Z (depth), the LDraw originals along X.
+  turns: number;
+  // LDU from the top face down to the LDraw origin. Technic pins, axles and the parts
+  // that ride on them have theirs on the axle line, 10 LDU below the top of a Technic brick.
+  originDepth?: number;
+}
+
+export const LDRAW_PARTS: Record<string, LDrawPartMapping> = {
+  brick_1x1: { file: '3005.dat', turns: 0 },
+  brick_1x2: { file: '3004.dat', turns: 1 },
+  brick_1x4: { file: '3010.dat', turns: 1 },
+  brick_2x2: { file: '3003.dat', turns: 0 },
+  brick_2x4: { file: '3001.dat', turns: 1 },
+  plate_1x1: { file: '3024.dat', turns: 0 },
+  plate_1x2: { file: '3023.dat', turns: 1 },
+  plate_2x2: { file: '3022.dat', turns: 0 },
+  plate_2x4: { file: '3020.dat', turns: 1 },
+  plate_4x4: { file: '3031.dat', turns: 0 },
+  // LDraw slopes face -Z, which is our +Z front once the Z axis is flipped
+  slope_2x1: { file: '3040.dat', turns: 0 },
+  slope_2x2: { file: '3039.dat', turns: 0 },
+  slope_2x4: { file: '3037.dat', turns: 0 },
+  slope_inv_2x1: { file: '3665.dat', turns: 0 },
+  slope_inv_2x2: { file: '3660.dat', turns: 0 },
+  slope_corner_2x2: { file: '3045.dat', turns: 0 },
+  // Closest LDraw equivalents are Technic bricks, which share the footprint and height
+  technic_1x2: { file: '3700.dat', turns: 1 },
+  technic_1x4: { file: '3701.dat', turns: 1 },
+  technic_1x8: { file: '3702.dat', turns: 1 },
+  // LDraw pins and axles run along X like ours; bushes and gears turn their axle line from Z onto X
+  technic_pin: { file: '3673.dat', turns: 0, originDepth: 10 },
+  technic_axle_2: { file: '3704.dat', turns: 0, originDepth: 10 },
+  technic_axle_3: { file: '4519.dat', turns: 0, originDepth: 10 },
+  technic_axle_4: { file: '3705.dat', turns: 0, originDepth: 10 },
+  technic_bush: { file: '3713.dat', turns: 1, originDepth: 10 },
+  technic_gear_8: { file: '3647.dat', turns: 1, originDepth: 10 },
+  technic_gear_16: { file: '4019.dat', turns: 1, originDepth: 10 },
+  technic_gear_24: { file: '3648b.dat', turns: 1, originDepth: 10 },
+  technic_gear_40: { file: '3649.dat', turns: 1, originDepth: 10 },
+  // Closest LDraw equivalent is the 9V mini-motor, whose output axle also runs along X
+  technic_motor: { file: '71427c01.dat', turns: 0 },
+};
+
+export interface LDrawReport {
+  unmappedParts: Record<string, number>; // Part id or LDraw file -> occurrences
+  unmappedColors: Record<string, number>; // Color name, approximated hex or LDraw code -> occurrences
+  unsupportedOrientations: number; // Parts tilted away from the Y axis
+}
+
+const emptyReport = (): LDrawReport => ({ unmappedParts: {}, unmappedColors: {}, unsupportedOrientations: 0 });
+
+const count = (table: Record<string, number>, key: string) => {
+  table[key] = (table[key] || 0) + 1;
+};
+
+export const hasReportEntries = (report: LDrawReport) =>
+  Object.keys(report.unmappedParts).length > 0 ||
+  Object.keys(report.unmappedColors).length > 0 ||
+  report.unsupportedOrientations > 0;
+
+export const formatLDrawReport = (report: LDrawReport): string => {
+  const lines: string[] = [];
+  const list = (table: Record<string, number>) => Object.entries(table).map(([k, n]) => `${k} ×${n}`).join(', ');
+  if (Object.keys(report.unmappedParts).length > 0) lines.push(`Unmapped parts: ${list(report.unmappedParts)}`);
+  if (Object.keys(report.unmappedColors).length > 0) lines.push(`Unmapped colors: ${list(report.unmappedColors)}`);
+  if (report.unsupportedOrientations > 0) lines.push(`Tilted parts skipped: ${report.unsupportedOrientations}`);
+  return lines.join('\n');
+};
+
+// --- Export ---
+
+const formatNumber = (n: number) => {
+  const rounded = Math.round(n * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+// Rotation about Y by `quarterTurns` in our frame, expressed in LDraw's flipped frame
+const rotationMatrix = (quarterTurns: number): number[] => {
+  const angle = quarterTurns * Math.PI / 2;
+  const c = Math.round(Math.cos(angle));
+  const s = Math.round(Math.sin(angle));
+  return [c, 0, -s, 0, 1, 0, s, 0, c];
+};
+
+// Palette entries carry their LDConfig.ldr code
+const toLDrawColor = (colorId: string, report: LDrawReport): string => {
+  const color = getColor(colorId);
+  if (color.ldraw !== undefined) return String(color.ldraw);
+  // Fall back to an LDraw direct color so the shade survives the round trip
+  count(report.unmappedColors, color.name);
+  return `0x2${color.hex.replace('#', '').toUpperCase()}`;
+};
+
+export const exportToLDraw = (bricks: PlacedBrick[], metadata: BuildMetadata): { text: string; report: LDrawReport } => {
+  const report = emptyReport();
+  const fileName = `${metadata.name.replace(/[^\w-]+/g, '_') || 'model'}.ldr`;
+  const lines = [
+    `0 ${metadata.name}`,
+    `0 Name: ${fileName}`,
+    `0 Author: ${metadata.author || 'Unknown'}`,
+    `0 !KENSENICH created ${metadata.created}`,
+    '',
+  ];
+
+  for (const brick of bricks) {
+    const mapping = LDRAW_PARTS[brick.typeId];
+    const def = BRICK_CATALOG.find(b => b.id === brick.typeId);
+    if (!mapping || !def) {
+      count(report.unmappedParts, brick.typeId);
+      continue;
+    }
+
+    // LDraw part origins sit at the top face center (Technic axle parts lower), ours at the bottom center
+    const [x, y, z] = brick.position;
+    const topLayer = Math.round(y / PLATE_HEIGHT) + getLayerCount(def);
+    const matrix = rotationMatrix(brick.rotation + mapping.turns);
+    lines.push([
+      1,
+      toLDrawColor(brick.colorId, report),
+      formatNumber(x * LDU_PER_UNIT),
+      formatNumber(-topLayer * LDU_PER_LAYER + (mapping.originDepth ?? 0)),
+      formatNumber(-z * LDU_PER_UNIT),
+      ...matrix.map(formatNumber),
+      mapping.file,
+    ].join(' '));
+  }
+
+  lines.push('0 STEP', '');
+  return { text: lines.join('\r\n'), report };
+};
+
+// --- Import ---
+
+type Matrix = number[]; // Row-major 3x3
+type Vector = [number, number, number];
+
+interface Transform {
+  matrix: Matrix;
+  offset: Vector;
+}
+
+const IDENTITY: Transform = { matrix: [1, 0, 0, 0, 1, 0, 0, 0, 1], offset: [0, 0, 0] };
+
+const multiply = (a: Matrix, b: Matrix): Matrix => {
+  const out: number[] = [];
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      out.push(a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c]);
+    }
+  }
+  return out;
+};
+
+const transformPoint = (m: Matrix, v: Vector, offset: Vector): Vector => [
+  m[0] * v[0] + m[1] * v[1] + m[2] * v[2] + offset[0],
+  m[3] * v[0] + m[4] * v[1] + m[5] * v[2] + offset[1],
+  m[6] * v[0] + m[7] * v[1] + m[8] * v[2] + offset[2],
+];
+
+const normalizeFileName = (name: string) => name.trim().toLowerCase().replace(/\\/g, '/');
+
+// Splits an .mpd into its FILE sections; a plain .ldr becomes a single unnamed section
+const splitFiles = (text: string): { main: string; files: Map<string, string[]> } => {
+  const files = new Map<string, string[]>();
+  let main = '';
+  let current: string[] | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const fileMatch = line.match(/^0\s+FILE\s+(.+)$/i);
+    if (fileMatch) {
+      const name = normalizeFileName(fileMatch[1]);
+      if (!main) main = name;
+      current = [];
+      files.set(name, current);
+      continue;
+    }
+    if (/^0\s+NOFILE\b/i.test(line)) {
+      current = null;
+      continue;
+    }
+    if (!current) {
+      if (files.size > 0) continue;
+      current = [];
+      files.set('', current);
+    }
+    current.push(line);
+  }
+  return { main, files };
+};
+
+// Returns a palette id; shades without an entry land on the nearest solid color
+const fromLDrawColor = (code: string, report: LDrawReport): string => {
+  const fallback = 'grey';
+  // 16 ("main color") left unresolved at the top of the model has no shade of its own
+  if (code === '16') return fallback;
+  const direct = code.match(/^0x2([0-9a-f]{6})$/i);
+  if (direct) {
+    const hex = `#${direct[1].toLowerCase()}`;
+    const nearest = findNearestColor(hex);
+    if (nearest.hex.toLowerCase() !== hex) count(report.unmappedColors, hex);
+    return nearest.id;
+  }
+  const color = COLORS.find(c => c.ldraw !== undefined && String(c.ldraw) === code);
+  if (color) return color.id;
+  count(report.unmappedColors, `LDraw ${code}`);
+  return fallback;
+};
+
+const snapToStep = (value: number, step: number) => Math.round(value / step) * step;
+
+export const importFromLDraw = (text: string): { bricks: PlacedBrick[]; name: string | null; report: LDrawReport } => {
+  const report = emptyReport();
+  const bricks: PlacedBrick[] = [];
+  const { main, files } = splitFiles(text);
+  const partsByFile = new Map(Object.entries(LDRAW_PARTS).map(([id, m]) => [m.file.toLowerCase(), { id, ...m }]));
+  let name: string | null = null;
+
+  // Walks a (sub)model, composing transforms down to the part references we know.
+  // Color 16 means "inherit from the referencing line".
+  const walk = (fileName: string, transform: Transform, inheritedColor: string, depth: number) => {
+    const lines = files.get(fileName);
+    if (!lines || depth > 16) return;
+
+    for (const line of lines) {
+      if (!name && depth === 0) {
+        const nameMatch = line.match(/^0\s+Name:\s*(.+)$/i);
+        if (nameMatch) name = nameMatch[1].replace(/\.(ldr|mpd|dat)$/i, '');
+      }
+
+      const tokens = line.split(/\s+/);
+      if (tokens[0] !== '1' || tokens.length < 15) continue;
+
+      const colorCode = tokens[1] === '16' ? inheritedColor : tokens[1];
+      const values = tokens.slice(2, 14).map(Number);
+      if (values.some(v => !Number.isFinite(v))) continue;
+      const file = normalizeFileName(tokens.slice(14).join(' '));
+
+      const localOffset: Vector = [values[0], values[1], values[2]];
+      const matrix = multiply(transform.matrix, values.slice(3));
+      const offset = transformPoint(transform.matrix, localOffset, transform.offset);
+
+      if (files.has(file)) {
+        walk(file, { matrix, offset }, colorCode, depth + 1);
+        continue;
+      }
+
+      const part = partsByFile.get(file);
+      const def = part && BRICK_CATALOG.find(b => b.id === part.id);
+      if (!part || !def) {
+        count(report.unmappedParts, file);
+        continue;
+      }
+
+      // Only turns about the vertical axis map onto our 90° rotation steps
+      const [a, , c, , e] = matrix;
+      if (Math.abs(e - 1) > 1e-3 || Math.abs(matrix[1]) > 1e-3 || Math.abs(matrix[3]) > 1e-3) {
+        report.unsupportedOrientations++;
+        continue;
+      }
+      const quarterTurns = Math.round(Math.atan2(-c, a) / (Math.PI / 2));
+      const rotation = (((quarterTurns - part.turns) % 4) + 4) % 4;
+
+      const topLayer = Math.round((-offset[1] + (part.originDepth ?? 0)) / LDU_PER_LAYER);
+      const baseLayer = topLayer - getLayerCount(def);
+      const isRotated = rotation % 2 !== 0;
+      const width = isRotated ? def.depth : def.width;
+      const depthStuds = isRotated ? def.width : def.depth;
+      const x = offset[0] / LDU_PER_UNIT;
+      const z = -offset[2] / LDU_PER_UNIT;
+
+      bricks.push({
+        id: uuidv4(),
+        typeId: part.id,
+        // Snap onto our grid: even footprints center on grid lines
+        position: [
+          width % 2 === 0 ? snapToStep(x - 0.5, 1) + 0.5 : snapToStep(x, 1),
+          baseLayer, // Converted to world height once the lowest layer is known
+          depthStuds % 2 === 0 ? snapToStep(z - 0.5, 1) + 0.5 : snapToStep(z, 1),
+        ],
+        rotation,
+        colorId: fromLDrawColor(colorCode, report),
+      });
+    }
+  };
+
+  walk(main, IDENTITY, '16', 0);
+
+  // LDraw models may sit at any height; rest the lowest part on our ground plane
+  const lowestLayer = Math.min(...bricks.map(b => b.position[1]));
+  for (const brick of bricks) {
+    brick.position[1] = parseFloat(((brick.position[1] - lowestLayer) * PLATE_HEIGHT).toFixed(2));
+  }
+  return { bricks, name, report };
+};
@@ -0,0 +1,208 @@
+import { COLORS } from '../constants';
+import { GeneratedPart } from './buildRepair';
+import { AiProvider, AiProviderError } from './aiProvider';
+import { PLATES_PER_BRICK, footprintCenter, layerToY } from './units';
+
+// Offline stand-in for an AI backend: reads a template, size, height and color from the
+// prompt and lays the build out by rule, so the same prompt always gives the same parts.
+
+export type LocalTemplate = 'tower' | 'wall' | 'house';
+
+export interface LocalBuildRequest {
+  template: LocalTemplate;
+  width: number; // Studs along X
+  depth: number; // Studs along Z
+  courses: number; // Brick rows high
+  colorId: string;
+}
+
+const TEMPLATE_WORDS: [LocalTemplate, RegExp][] = [
+  ['tower', /\b(tower|pillar|column)s?\b/],
+  ['wall', /\b(wall|fence)s?\b/],
+  ['house', /\b(house|hut|home|cabin)s?\b/],
+];
+
+const DEFAULTS: Record<LocalTemplate, Omit<LocalBuildRequest, 'template'>> = {
+  tower: { width: 4, depth: 4, courses: 10, colorId: 'grey' },
+  wall: { width: 8, depth: 1, courses: 3, colorId: 'red' },
+  house: { width: 8, depth: 6, courses: 4, colorId: 'white' },
+};
+
+const MAX_SIZE = 32;
+const MAX_COURSES = 24;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Longest names first, so "dark red" is not read as "red"
+const findColorId = (text: string) => {
+  const names = COLORS.flatMap(c => [[c.name.toLowerCase(), c.id], [c.id.replace(/-/g, ' '), c.id]])
+    .sort((a, b) => b[0].length - a[0].length);
+  return names.find(([name]) => new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(text))?.[1] ?? null;
+};
+
+// Reads prompts like "blue wall of 12 studs, 5 bricks high" or "6x8 house".
+// Returns null when no template is named.
+export const parseLocalPrompt = (prompt: string): LocalBuildRequest | null => {
+  let text = prompt.toLowerCase();
+  const template = TEMPLATE_WORDS.find(([, pattern]) => pattern.test(text))?.[0];
+  if (!template) return null;
+  const request: LocalBuildRequest = { template, ...DEFAULTS[template] };
+
+  const height = text.match(/(\d+)\s*(?:bricks?\s*)?(?:tall|high|levels?|courses?|layers?|stor(?:ey|ie)s?)\b/);
+  if (height) {
+    request.courses = Number(height[1]);
+    text = text.replace(height[0], ' ');
+  }
+
+  const area = text.match(/(\d+)\s*(?:x|by)\s*(\d+)/);
+  const single = text.match(/(\d+)/);
+  if (area) {
+    request.width = Number(area[1]);
+    request.depth = template === 'wall' ? 1 : Number(area[2]);
+  } else if (single) {
+    request.width = Number(single[1]);
+    if (template !== 'wall') request.depth = request.width;
+  }
+
+  request.width = clamp(request.width, 1, MAX_SIZE);
+  request.depth = clamp(request.depth, 1, MAX_SIZE);
+  request.courses = clamp(request.courses, 1, MAX_COURSES);
+  request.colorId = findColorId(text) ?? request.colorId;
+  return request;
+};
+
+// Piece lengths for a straight run of cells. Staggered runs start with a half-length piece
+// so joints never line up with the course below.
+const splitRun = (length: number, staggered: boolean, maxPiece = 4) => {
+  const pieces: number[] = [];
+  let left = length;
+  if (staggered && length > 2) {
+    pieces.push(2);
+    left -= 2;
+  }
+  while (left >= maxPiece) {
+    pieces.push(maxPiece);
+    left -= maxPiece;
+  }
+  if (left >= 2) {
+    pieces.push(2);
+    left -= 2;
+  }
+  if (left === 1) pieces.push(1);
+  return pieces;
+};
+
+const BRICK_FOR_LENGTH: Record<number, string> = { 1: 'brick_1x1', 2: 'brick_1x2', 4: 'brick_1x4' };
+
+// One-stud-wide bricks along X (from column x) or Z (from column z), bottom at `layer`
+const brickRun = (
+  axis: 'x' | 'z', start: number, fixed: number, length: number, layer: number, staggered: boolean, colorId: string
+): GeneratedPart[] => {
+  let offset = start;
+  return splitRun(length, staggered).map(size => {
+    const along = footprintCenter(offset, size);
+    const across = footprintCenter(fixed, 1);
+    offset += size;
+    return {
+      partId: BRICK_FOR_LENGTH[size],
+      x: axis === 'x' ? along : across,
+      y: layerToY(layer),
+      z: axis === 'x' ? across : along,
+      rotation: axis === 'x' ? 1 : 0, // A 1xN brick runs along Z unturned
+      colorId,
+    };
+  });
+};
+
+// Hollow rectangle of walls. Front and back rows take the corners on even courses and the
+// side columns on odd ones, so the corners interlock.
+const buildRing = (minX: number, minZ: number, width: number, depth: number, courses: number, colorId: string) => {
+  const parts: GeneratedPart[] = [];
+  for (let course = 0; course < courses; course++) {
+    const layer = course * PLATES_PER_BRICK;
+    const staggered = course % 2 === 1;
+    if (width === 1 || depth === 1) {
+      parts.push(...(depth === 1
+        ? brickRun('x', minX, minZ, width, layer, staggered, colorId)
+        : brickRun('z', minZ, minX, depth, layer, staggered, colorId)));
+      continue;
+    }
+    const rowsOwnCorners = course % 2 === 0;
+    const rowStart = rowsOwnCorners ? minX : minX + 1;
+    const rowLength = rowsOwnCorners ? width : width - 2;
+    const columnStart = rowsOwnCorners ? minZ + 1 : minZ;
+    const columnLength = rowsOwnCorners ? depth - 2 : depth;
+    [minZ, minZ + depth - 1].forEach(z => parts.push(...brickRun('x', rowStart, z, rowLength, layer, staggered, colorId)));
+    [minX, minX + width - 1].forEach(x => parts.push(...brickRun('z', columnStart, x, columnLength, layer, staggered, colorId)));
+  }
+  return parts;
+};
+
+// Alternate 1x1 bricks around the top edge of a tower
+const buildBattlements = (minX: number, minZ: number, width: number, depth: number, layer: number, colorId: string) => {
+  const cells: [number, number][] = [];
+  for (let x = minX; x < minX + width; x++) cells.push([x, minZ]);
+  for (let z = minZ + 1; z < minZ + depth; z++) cells.push([minX + width - 1, z]);
+  if (depth > 1) for (let x = minX + width - 2; x >= minX; x--) cells.push([x, minZ + depth - 1]);
+  if (width > 1) for (let z = minZ + depth - 2; z > minZ; z--) cells.push([minX, z]);
+  return cells.filter((_, i) => i % 2 === 0).map(([x, z]): GeneratedPart => ({
+    partId: 'brick_1x1', x: footprintCenter(x, 1), y: layerToY(layer), z: footprintCenter(z, 1), rotation: 0, colorId,
+  }));
+};
+
+// Plates covering the whole rectangle in rows two studs deep
+const plateLayer = (minX: number, minZ: number, width: number, depth: number, layer: number, shifted: boolean, colorId: string) => {
+  const parts: GeneratedPart[] = [];
+  // The shifted layer opens with a 1-deep row, so its row seams fall between the other's
+  const rows = shifted && depth > 1 ? [1, ...splitRun(depth - 1, false, 2)] : splitRun(depth, false, 2);
+  let z = minZ;
+  rows.forEach(rowDepth => {
+    let x = minX;
+    splitRun(width, shifted, rowDepth === 2 ? 4 : 2).forEach(length => {
+      const [partId, rotation] = rowDepth === 2
+        ? length === 4 ? ['plate_2x4', 1] : length === 2 ? ['plate_2x2', 0] : ['plate_1x2', 0]
+        : length === 2 ? ['plate_1x2', 1] : ['plate_1x1', 0];
+      parts.push({
+        partId, rotation, colorId,
+        x: footprintCenter(x, length), y: layerToY(layer), z: footprintCenter(z, rowDepth),
+      });
+      x += length;
+    });
+    z += rowDepth;
+  });
+  return parts;
+};
+
+// Parts for a request, centered on the origin and standing on the ground
+export const buildFromTemplate = (request: LocalBuildRequest): GeneratedPart[] => {
+  const { template, width, depth, courses, colorId } = request;
+  const minX = -Math.floor(width / 2);
+  const minZ = -Math.floor(depth / 2);
+  const parts = buildRing(minX, minZ, width, depth, courses, colorId);
+  const top = courses * PLATES_PER_BRICK;
+
+  if (template === 'tower') {
+    parts.push(...buildBattlements(minX, minZ, width, depth, top, colorId));
+  } else if (template === 'house' && width > 1 && depth > 1) {
+    // Two plate layers with offset seams, so the middle of the roof is held by its edges
+    const roofColor = colorId === 'red' ? 'dark-grey' : 'red';
+    parts.push(...plateLayer(minX, minZ, width, depth, top, false, roofColor));
+    parts.push(...plateLayer(minX, minZ, width, depth, top + 1, true, roofColor));
+  }
+  return parts;
+};
+
+export const localProvider: AiProvider = {
+  id: 'local',
+  name: 'Offline builder',
+  description: 'Towers, walls and houses from templates, e.g. "blue tower 4x4, 8 bricks high". Works without a network.',
+  isConfigured: () => true,
+  generateBuild: async (prompt, signal) => {
+    if (signal.aborted) throw signal.reason;
+    const request = parseLocalPrompt(prompt);
+    if (!request) {
+      throw new AiProviderError('unsupported', 'The offline builder can make a tower, a wall or a house, e.g. "red wall of 12 studs, 4 bricks high".');
+    }
+    return buildFromTemplate(request);
+  },
+};
@@ -0,0 +1,130 @@
+import { BRICK_CATALOG } from '../constants';
+import { PlacedBrick, BrickTypeDefinition } from '../types';
+import { CellClass, getCellClass } from './partShapes';
+import { footprintMin, getLayerCount, toLayer } from './units';
+
+// A cell is one stud column (x, z) at one plate-height layer.
+// The index maps every occupied cell to the id of the brick filling it. Pins and axles
+// are kept under their own keys, since they share cells with the parts they run through;
+// parts with holes are listed once more under a marker key, so a pin can tell them apart.
+export type OccupancyIndex = Map<string, string>;
+
+const ROD_KEY = '|rod';
+const HOLED_KEY = '|holed';
+
+export interface BrickOverlap {
+  brickId: string;
+  otherId: string;
+}
+
+export type BrickPlacement = Pick<PlacedBrick, 'typeId' | 'position' | 'rotation'>;
+
+export const cellKey = (x: number, layer: number, z: number) => `${x},${layer},${z}`;
+
+// Footprint in studs after applying the 90° rotation steps
+export const getFootprint = (def: BrickTypeDefinition, rotation: number): [number, number] => {
+  const isRotated = rotation % 2 !== 0;
+  return isRotated ? [def.depth, def.width] : [def.width, def.depth];
+};
+
+export interface BrickBounds {
+  minX: number;
+  minZ: number;
+  width: number;
+  depth: number;
+  baseLayer: number;
+  layers: number;
+}
+
+export const getBrickBounds = (brick: BrickPlacement): BrickBounds | null => {
+  const def = BRICK_CATALOG.find(b => b.id === brick.typeId);
+  if (!def) return null;
+
+  const [width, depth] = getFootprint(def, brick.rotation);
+  const [x, y, z] = brick.position;
+
+  // Position is the footprint center; even sizes sit on grid lines (x.5)
+  return {
+    minX: footprintMin(x, width),
+    minZ: footprintMin(z, depth),
+    width,
+    depth,
+    baseLayer: toLayer(y),
+    layers: getLayerCount(def),
+  };
+};
+
+// The cells a part fills, as plain cell keys, and how it shares them
+const getFilledCells = (brick: BrickPlacement): { cells: string[]; cellClass: CellClass } | null => {
+  const bounds = getBrickBounds(brick);
+  if (!bounds) return null;
+
+  const cells: string[] = [];
+  for (let i = 0; i < bounds.width; i++) {
+    for (let j = 0; j < bounds.depth; j++) {
+      for (let l = 0; l < bounds.layers; l++) {
+        cells.push(cellKey(bounds.minX + i, bounds.baseLayer + l, bounds.minZ + j));
+      }
+    }
+  }
+  return { cells, cellClass: getCellClass(BRICK_CATALOG.find(b => b.id === brick.typeId)!) };
+};
+
+// Index keys for a part: plain cell keys, with the rod or hole keys described above
+export const getBrickCells = (brick: BrickPlacement): string[] => {
+  const filled = getFilledCells(brick);
+  if (!filled) return [];
+  if (filled.cellClass === 'rod') return filled.cells.map(cell => cell + ROD_KEY);
+  if (filled.cellClass === 'holed') return filled.cells.flatMap(cell => [cell, cell + HOLED_KEY]);
+  return filled.cells;
+};
+
+export const buildOccupancyIndex = (bricks: PlacedBrick[]): OccupancyIndex => {
+  const index: OccupancyIndex = new Map();
+  for (const brick of bricks) {
+    for (const cell of getBrickCells(brick)) {
+      // First brick wins; later overlapping ones are reported by findOverlaps
+      if (!index.has(cell)) index.set(cell, brick.id);
+    }
+  }
+  return index;
+};
+
+// Ids of placed bricks that a candidate would intersect.
+// ignoreIds lets callers test a move or rotation of bricks already in the index.
+export const findCollisions = (
+  index: OccupancyIndex,
+  candidate: BrickPlacement,
+  ignoreIds?: Set<string>
+): string[] => {
+  const filled = getFilledCells(candidate);
+  const hits = new Set<string>();
+  const hit = (occupant: string | undefined) => { if (occupant && !ignoreIds?.has(occupant)) hits.add(occupant); };
+  for (const cell of filled?.cells ?? []) {
+    const occupant = index.get(cell);
+    // A pin or axle may go through a part with holes, but not through a solid one
+    if (filled!.cellClass !== 'rod' || index.get(cell + HOLED_KEY) !== occupant) hit(occupant);
+    // Only parts with holes make room for a pin or axle
+    if (filled!.cellClass !== 'holed') hit(index.get(cell + ROD_KEY));
+  }
+  return [...hits];
+};
+
+export const canPlace = (index: OccupancyIndex, candidate: BrickPlacement, ignoreIds?: Set<string>) =>
+  findCollisions(index, candidate, ignoreIds).length === 0;
+
+// Used to flag imported or generated builds whose bricks intersect each other
+export const findOverlaps = (bricks: PlacedBrick[]): BrickOverlap[] => {
+  const index: OccupancyIndex = new Map();
+  const overlaps: BrickOverlap[] = [];
+
+  for (const brick of bricks) {
+    findCollisions(index, brick)
+      .filter(otherId => otherId !== brick.id)
+      .forEach(otherId => overlaps.push({ brickId: brick.id, otherId }));
+    for (const cell of getBrickCells(brick)) {
+      if (!index.has(cell)) index.set(cell, brick.id);
+    }
+  }
+  return overlaps;
+};
@@ -0,0 +1,91 @@
+import { PLATE_HEIGHT, STUD_SIZE } from '../constants';
+import { BrickTypeDefinition, PlacedBrick } from '../types';
+import { OccupancyIndex, cellKey } from './occupancyGrid';
+import { getStudCells, toWorldColumn } from './partShapes';
+import { getConnectionPoints } from './connectionPoints';
+import { getLayerCount, getPartHeight, toLayer } from './units';
+
+type Vec3 = [number, number, number];
+
+// Studs and Technic holes are small but many; the scene draws them apart from the part
+// bodies so that hidden ones can be left out and distant ones simplified.
+
+export interface StudDetail {
+  brickId: string;
+  position: Vec3; // Center of the stud's base, on the part's top face
+}
+
+export interface HoleDetail {
+  brickId: string;
+  position: Vec3; // Center of the hole
+  alongX: boolean; // Hole axis in world space; otherwise along Z
+  length: number;
+  radius: number;
+}
+
+export type DetailLevel = 'high' | 'low' | 'hidden';
+
+// Camera distances (world units) where details drop to low poly, and where they go entirely.
+// Holes are smaller than studs, so they simplify sooner.
+const LOD_DISTANCES = {
+  stud: { low: 30, hidden: 90 },
+  hole: { low: 20, hidden: 60 },
+};
+
+export const getDetailLevel = (kind: keyof typeof LOD_DISTANCES, distance: number): DetailLevel => {
+  const limits = LOD_DISTANCES[kind];
+  return distance < limits.low ? 'high' : distance < limits.hidden ? 'low' : 'hidden';
+};
+
+// Studs of a placed part that are not under another part. A stud is covered when the
+// cell right above it, on the part's top layer, is occupied.
+export const getVisibleStuds = (brick: PlacedBrick, def: BrickTypeDefinition, occupancy: OccupancyIndex): StudDetail[] => {
+  const topLayer = toLayer(brick.position[1]) + getLayerCount(def);
+  const y = brick.position[1] + getPartHeight(def);
+  return getStudCells(def)
+    .map(cell => toWorldColumn(def, brick.position, brick.rotation, cell))
+    .filter(([x, z]) => !occupancy.has(cellKey(x, topLayer, z)))
+    .map(([x, z]) => ({ brickId: brick.id, position: [x, y, z] as Vec3 }));
+};
+
+// Stud columns a hole end touches; holes between two studs border both
+const columnsAt = (v: number) => Math.abs(v - Math.round(v)) > 0.25 ? [Math.floor(v), Math.ceil(v)] : [Math.round(v)];
+
+// Technic holes of a placed part that can still be seen. A hole is hidden when parts
+// fill the cells beyond both of its open ends.
+export const getVisibleHoles = (brick: PlacedBrick, def: BrickTypeDefinition, occupancy: OccupancyIndex): HoleDetail[] => {
+  const angle = brick.rotation * Math.PI / 2;
+  const cos = Math.round(Math.cos(angle));
+  const sin = Math.round(Math.sin(angle));
+  // Quarter turns around Y, as the scene applies them
+  const rotate = ([x, y, z]: Vec3): Vec3 => [x * cos + z * sin, y, -x * sin + z * cos];
+
+  const holes: HoleDetail[] = [];
+  for (const point of getConnectionPoints(def)) {
+    if (point.kind !== 'pin-hole' && point.kind !== 'axle-hole') continue;
+    const localAlongX = Math.abs(point.direction[0]) > 0.5;
+    const length = (localAlongX ? def.width : def.depth) * STUD_SIZE + 0.05;
+    const [dx, , dz] = rotate(localAlongX ? [1, 0, 0] : [0, 0, 1]);
+    const [px, py, pz] = rotate(point.position);
+    const position: Vec3 = [brick.position[0] + px, brick.position[1] + py, brick.position[2] + pz];
+
+    // Cells just past each end of the hole, at the hole's height
+    const layer = Math.floor(position[1] / PLATE_HEIGHT);
+    const reach = length / 2 + 0.5;
+    const covered = [1, -1].every(side => {
+      const xs = columnsAt(position[0] + dx * reach * side);
+      const zs = columnsAt(position[2] + dz * reach * side);
+      return xs.every(x => zs.every(z => occupancy.has(cellKey(x, layer, z))));
+    });
+    if (covered) continue;
+
+    holes.push({
+      brickId: brick.id,
+      position,
+      alongX: Math.abs(dx) > 0.5,
+      length,
+      radius: point.kind === 'axle-hole' ? 0.16 : 0.25,
+    });
+  }
+  return holes;
+};
@@ -0,0 +1,238 @@
+import { BRICK_CATALOG, COLORS } from '../constants';
+import { BrickColor, BrickTypeDefinition, PackReference, PlacedBrick } from '../types';
+import builtinLibrary from '../catalogs/builtin.json';
+
+// Part libraries are JSON files holding part definitions and colors. The catalog is
+// the built-in library with installed packs layered on top in order; a later pack
+// replaces earlier parts or colors that share its ids.
+
+export const LIBRARY_FORMAT = 'kensenich-part-library';
+export const BUILTIN_PACK_ID = 'builtin';
+// Pack the in-app part editor writes to
+export const CUSTOM_PACK_ID = 'custom';
+
+const PACKS_STORAGE_KEY = 'kensenichLegoPartPacks';
+
+export interface PartLibrary {
+  format: typeof LIBRARY_FORMAT;
+  id: string;
+  name: string;
+  version: number;
+  parts: BrickTypeDefinition[];
+  colors?: BrickColor[];
+}
+
+export interface LibraryIssue {
+  path: string; // e.g. "parts[3].width"
+  message: string;
+}
+
+// The file is not a part library at all; per-part problems are reported as issues instead
+export class PartLibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PartLibraryError';
+  }
+}
+
+export const BUILTIN_LIBRARY = builtinLibrary as unknown as PartLibrary;
+
+// --- Validation ---
+
+const CATEGORIES = ['basic', 'plate', 'tile', 'technic', 'slope'];
+const SHAPE_KINDS = ['box', 'slope', 'slope-inverted', 'slope-corner', 'pin', 'axle', 'bush', 'gear'];
+const CONNECTION_KINDS = ['stud', 'anti-stud', 'pin', 'axle', 'pin-hole', 'axle-hole'];
+const FINISHES = ['solid', 'trans', 'metallic', 'pearl', 'chrome', 'glow'];
+const MAX_PART_SIZE = 32;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isVector = (value: unknown) => Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+const isSize = (value: unknown) => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_PART_SIZE;
+
+// Checks one entry against the BrickTypeDefinition schema
+export const validatePartDefinition = (part: any, path = 'part'): LibraryIssue[] => {
+  const issues: LibraryIssue[] = [];
+  const issue = (field: string, message: string) => issues.push({ path: `${path}.${field}`, message });
+
+  if (!part || typeof part !== 'object') return [{ path, message: 'Entry is not a part object' }];
+  if (typeof part.id !== 'string' || !/^[a-z0-9_.-]+$/i.test(part.id)) issue('id', 'Id must be letters, digits, "_", "-" or "."');
+  if (typeof part.name !== 'string' || part.name.trim() === '') issue('name', 'Missing name');
+  if (!CATEGORIES.includes(part.category)) issue('category', `Category must be one of ${CATEGORIES.join(', ')}`);
+  if (!isSize(part.width)) issue('width', `Width must be a whole number of studs from 1 to ${MAX_PART_SIZE}`);
+  if (!isSize(part.depth)) issue('depth', `Depth must be a whole number of studs from 1 to ${MAX_PART_SIZE}`);
+  // Heights are counted in bricks but must land on whole plates (a plate is 0.33)
+  if (!isFiniteNumber(part.height) || part.height <= 0 || Math.abs(part.height * 3 - Math.round(part.height * 3)) > 0.02) {
+    issue('height', 'Height must be a whole number of plates (0.33, 0.67, 1, …)');
+  }
+  if (typeof part.hasStuds !== 'boolean') issue('hasStuds', 'hasStuds must be true or false');
+  if (part.hasHoles !== undefined && typeof part.hasHoles !== 'boolean') issue('hasHoles', 'hasHoles must be true or false');
+  if (part.motorRpm !== undefined && !isFiniteNumber(part.motorRpm)) issue('motorRpm', 'motorRpm must be a number');
+
+  if (part.shape !== undefined) {
+    const shape = part.shape;
+    if (!shape || !SHAPE_KINDS.includes(shape.kind)) issue('shape.kind', `Shape must be one of ${SHAPE_KINDS.join(', ')}`);
+    else {
+      if (shape.flatDepth !== undefined && !isSize(shape.flatDepth)) issue('shape.flatDepth', 'flatDepth must be a whole number of studs');
+      if (shape.kind === 'gear' && !(Number.isInteger(shape.teeth) && shape.teeth >= 4)) issue('shape.teeth', 'Gears need a whole number of teeth (4 or more)');
+    }
+  }
+
+  if (part.connections !== undefined) {
+    if (!Array.isArray(part.connections)) issue('connections', 'connections must be a list');
+    else part.connections.forEach((c: any, i: number) => {
+      if (!c || !CONNECTION_KINDS.includes(c.kind)) issue(`connections[${i}].kind`, `Kind must be one of ${CONNECTION_KINDS.join(', ')}`);
+      if (!isVector(c?.position)) issue(`connections[${i}].position`, 'Position must be three numbers');
+      if (!isVector(c?.direction)) issue(`connections[${i}].direction`, 'Direction must be three numbers');
+    });
+  }
+  return issues;
+};
+
+const validateColor = (color: any, path: string): LibraryIssue[] => {
+  const issues: LibraryIssue[] = [];
+  if (!color || typeof color.id !== 'string' || color.id === '') issues.push({ path: `${path}.id`, message: 'Missing color id' });
+  if (typeof color?.name !== 'string') issues.push({ path: `${path}.name`, message: 'Missing color name' });
+  if (typeof color?.hex !== 'string' || !/^#[0-9a-f]{6}$/i.test(color.hex)) issues.push({ path: `${path}.hex`, message: 'Color must be a hex string like #ff0000' });
+  if (color?.finish !== undefined && !FINISHES.includes(color.finish)) issues.push({ path: `${path}.finish`, message: `Finish must be one of ${FINISHES.join(', ')}` });
+  (['legoId', 'ldraw', 'bricklink'] as const).forEach(code => {
+    if (color?.[code] !== undefined && !Number.isInteger(color[code])) issues.push({ path: `${path}.${code}`, message: `${code} must be a whole number` });
+  });
+  return issues;
+};
+
+// Keeps the valid parts and colors of a library file and reports the rest
+export const validatePartLibrary = (raw: unknown): { library: PartLibrary; issues: LibraryIssue[] } => {
+  const data = raw as any;
+  if (!data || typeof data !== 'object' || data.format !== LIBRARY_FORMAT) {
+    throw new PartLibraryError('File is not a KensenichLego part library.');
+  }
+  if (typeof data.id !== 'string' || data.id === '' || typeof data.name !== 'string' || !Number.isInteger(data.version)) {
+    throw new PartLibraryError('Part library needs an id, a name and an integer version.');
+  }
+  if (!Array.isArray(data.parts)) throw new PartLibraryError('Part library has no parts list.');
+
+  const issues: LibraryIssue[] = [];
+  const seen = new Set<string>();
+  const parts = data.parts.filter((part: any, i: number) => {
+    const partIssues = validatePartDefinition(part, `parts[${i}]`);
+    if (partIssues.length === 0 && seen.has(part.id)) partIssues.push({ path: `parts[${i}].id`, message: `Duplicate part id "${part.id}"` });
+    issues.push(...partIssues);
+    if (partIssues.length > 0) return false;
+    seen.add(part.id);
+    return true;
+  });
+  const colors = Array.isArray(data.colors)
+    ? data.colors.filter((color: any, i: number) => {
+        const colorIssues = validateColor(color, `colors[${i}]`);
+        issues.push(...colorIssues);
+        return colorIssues.length === 0;
+      })
+    : undefined;
+
+  return { library: { format: LIBRARY_FORMAT, id: data.id, name: data.name, version: data.version, parts, colors }, issues };
+};
+
+export const parsePartLibrary = (text: string) => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new PartLibraryError('File is not valid JSON.');
+  }
+  return validatePartLibrary(raw);
+};
+
+export const serializePartLibrary = (library: PartLibrary) => JSON.stringify(library, null, 2);
+
+export const formatLibraryIssues = (issues: LibraryIssue[], limit = 8): string => {
+  const lines = issues.slice(0, limit).map(i => `• ${i.path}: ${i.message}`);
+  if (issues.length > limit) lines.push(`…and ${issues.length - limit} more`);
+  return lines.join('\n');
+};
+
+// --- Active catalog ---
+
+// Which pack each active part id came from
+const partSource = new Map<string, PartLibrary>();
+
+// Rebuilds BRICK_CATALOG and COLORS from the built-in library plus the given packs
+export const installCatalog = (packs: PartLibrary[]) => {
+  const parts = new Map<string, BrickTypeDefinition>();
+  const colors = new Map<string, BrickColor>();
+  partSource.clear();
+  for (const library of [BUILTIN_LIBRARY, ...packs]) {
+    library.parts.forEach(part => {
+      parts.set(part.id, part);
+      partSource.set(part.id, library);
+    });
+    library.colors?.forEach(color => colors.set(color.id, color));
+  }
+  BRICK_CATALOG.splice(0, BRICK_CATALOG.length, ...parts.values());
+  COLORS.splice(0, COLORS.length, ...colors.values());
+};
+
+export const getPartPack = (typeId: string): PartLibrary | undefined => partSource.get(typeId);
+
+// Packs beyond the built-in catalog that provide parts used in the scene
+export const getPackDependencies = (bricks: PlacedBrick[]): PackReference[] => {
+  const packs = new Map<string, PackReference>();
+  for (const brick of bricks) {
+    const library = partSource.get(brick.typeId);
+    if (library && library.id !== BUILTIN_PACK_ID && !packs.has(library.id)) {
+      packs.set(library.id, { id: library.id, name: library.name, version: library.version });
+    }
+  }
+  return [...packs.values()];
+};
+
+// Dependencies of a saved build that are not installed, or installed at an older version
+export const findMissingPacks = (required: PackReference[], installed: PartLibrary[]): PackReference[] =>
+  required.filter(ref => !installed.some(pack => pack.id === ref.id && pack.version >= ref.version));
+
+// --- Custom parts ---
+
+// Adds or replaces a part in the custom pack, creating the pack when needed
+export const upsertCustomPart = (packs: PartLibrary[], part: BrickTypeDefinition): PartLibrary[] => {
+  const existing = packs.find(p => p.id === CUSTOM_PACK_ID);
+  const custom: PartLibrary = existing
+    ? { ...existing, version: existing.version + 1, parts: [...existing.parts.filter(p => p.id !== part.id), part] }
+    : { format: LIBRARY_FORMAT, id: CUSTOM_PACK_ID, name: 'My Parts', version: 1, parts: [part] };
+  return existing ? packs.map(p => p === existing ? custom : p) : [...packs, custom];
+};
+
+export const removeCustomPart = (packs: PartLibrary[], partId: string): PartLibrary[] =>
+  packs.map(p => p.id === CUSTOM_PACK_ID
+    ? { ...p, version: p.version + 1, parts: p.parts.filter(part => part.id !== partId) }
+    : p);
+
+// --- Persistence ---
+
+export const loadInstalledPacks = (): PartLibrary[] => {
+  try {
+    const saved = localStorage.getItem(PACKS_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    if (!Array.isArray(parsed)) return [];
+    // Stored packs were validated on import, but the schema may have moved on since
+    return parsed.flatMap(raw => {
+      try {
+        return [validatePartLibrary(raw).library];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+// False when the packs could not be stored, e.g. with the storage quota used up; they
+// stay installed for the session either way
+export const saveInstalledPacks = (packs: PartLibrary[]): boolean => {
+  try {
+    localStorage.setItem(PACKS_STORAGE_KEY, JSON.stringify(packs));
+    return true;
+  } catch (err) {
+    console.error("Failed to save part packs", err);
+    return false;
+  }
+};
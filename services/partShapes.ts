@@ -0,0 +1,173 @@
+import { STUD_SIZE } from '../constants';
+import { getPartHeight } from './units';
+import { BrickTypeDefinition } from '../types';
+
+// Height of the vertical strip left at the low edge of a slope
+const SLOPE_LIP = 0.2;
+
+type Vec3 = [number, number, number];
+
+// Convex solid as shared by the renderer and the physics collider. Faces index into
+// vertices and wind counter-clockwise seen from outside, as cannon expects.
+export interface ShapePolyhedron {
+  vertices: Vec3[];
+  faces: number[][];
+}
+
+export const isBoxShape = (def: BrickTypeDefinition) => !def.shape || def.shape.kind === 'box';
+
+// Pins, axles, bushes and gears: Technic parts on a rod axis, drawn and simulated apart from solid parts
+export const isRodShape = (def: BrickTypeDefinition) =>
+  def.shape?.kind === 'pin' || def.shape?.kind === 'axle' || def.shape?.kind === 'bush' || def.shape?.kind === 'gear';
+
+// How a part shares grid cells: pins and axles ('rod') may run through parts with pin or
+// axle holes ('holed', which includes gears and bushes); every other pairing collides
+export type CellClass = 'solid' | 'holed' | 'rod';
+
+export const getCellClass = (def: BrickTypeDefinition): CellClass => {
+  if (def.shape?.kind === 'pin' || def.shape?.kind === 'axle') return 'rod';
+  return def.hasHoles || def.connections?.some(c => c.kind === 'pin-hole' || c.kind === 'axle-hole') ? 'holed' : 'solid';
+};
+
+// Pitch radius in studs: two 16 tooth gears mesh two studs apart
+export const getGearRadius = (teeth: number) => teeth / 16;
+
+const flatDepthOf = (def: BrickTypeDefinition) => Math.min(def.depth - 1, Math.max(1, def.shape?.flatDepth ?? 1));
+
+// Builds the polyhedron from unordered face outlines: every outline is convex and planar,
+// so it only needs flipping when its normal points back into the solid.
+const toPolyhedron = (outlines: Vec3[][]): ShapePolyhedron => {
+  const vertices: Vec3[] = [];
+  const indexOf = new Map<string, number>();
+  const vertexIndex = (v: Vec3) => {
+    const key = v.map(n => n.toFixed(5)).join(',');
+    let index = indexOf.get(key);
+    if (index === undefined) {
+      index = vertices.length;
+      vertices.push(v);
+      indexOf.set(key, index);
+    }
+    return index;
+  };
+  outlines.forEach(outline => outline.forEach(vertexIndex));
+
+  const center = vertices.reduce<Vec3>((c, v) => [c[0] + v[0], c[1] + v[1], c[2] + v[2]], [0, 0, 0])
+    .map(n => n / vertices.length) as Vec3;
+
+  const faces = outlines.map(outline => {
+    const [a, b, c] = outline;
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const normal = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    const outward = normal[0] * (a[0] - center[0]) + normal[1] * (a[1] - center[1]) + normal[2] * (a[2] - center[2]);
+    const ordered = outward < 0 ? [...outline].reverse() : outline;
+    return ordered.map(vertexIndex);
+  });
+
+  return { vertices, faces };
+};
+
+// Solid body of a non-box part, bottom-center origin like BrickGeometry. `inset` shrinks
+// the footprint the same way the rendered boxes leave a seam between neighbours.
+export const getShapePolyhedron = (def: BrickTypeDefinition, inset = 0): ShapePolyhedron | null => {
+  if (isBoxShape(def)) return null;
+
+  const X = (def.width * STUD_SIZE - inset) / 2;
+  const Z = (def.depth * STUD_SIZE - inset) / 2;
+  const h = getPartHeight(def);
+  // Ridge where the flat rear meets the slope
+  const ridge = -def.depth * STUD_SIZE / 2 + flatDepthOf(def) * STUD_SIZE;
+
+  switch (def.shape!.kind) {
+    case 'slope': {
+      // Flat top over the rear rows, falling toward +Z down to the lip
+      const side = (x: number): Vec3[] => [[x, 0, -Z], [x, h, -Z], [x, h, ridge], [x, SLOPE_LIP, Z], [x, 0, Z]];
+      return toPolyhedron([
+        side(-X),
+        side(X),
+        [[-X, h, -Z], [X, h, -Z], [X, h, ridge], [-X, h, ridge]],
+        [[-X, h, ridge], [X, h, ridge], [X, SLOPE_LIP, Z], [-X, SLOPE_LIP, Z]],
+        [[-X, 0, Z], [X, 0, Z], [X, SLOPE_LIP, Z], [-X, SLOPE_LIP, Z]],
+        [[-X, 0, -Z], [X, 0, -Z], [X, h, -Z], [-X, h, -Z]],
+        [[-X, 0, -Z], [X, 0, -Z], [X, 0, Z], [-X, 0, Z]],
+      ]);
+    }
+    case 'slope-inverted': {
+      // Full top; the underside only covers the rear rows and rises toward +Z
+      const side = (x: number): Vec3[] => [[x, 0, -Z], [x, 0, ridge], [x, h - SLOPE_LIP, Z], [x, h, Z], [x, h, -Z]];
+      return toPolyhedron([
+        side(-X),
+        side(X),
+        [[-X, h, -Z], [X, h, -Z], [X, h, Z], [-X, h, Z]],
+        [[-X, h, Z], [X, h, Z], [X, h - SLOPE_LIP, Z], [-X, h - SLOPE_LIP, Z]],
+        [[-X, 0, ridge], [X, 0, ridge], [X, h - SLOPE_LIP, Z], [-X, h - SLOPE_LIP, Z]],
+        [[-X, 0, -Z], [X, 0, -Z], [X, 0, ridge], [-X, 0, ridge]],
+        [[-X, 0, -Z], [X, 0, -Z], [X, h, -Z], [-X, h, -Z]],
+      ]);
+    }
+    case 'slope-corner': {
+      // Flat rear-left corner, sloping down toward both +X and +Z with a crease between
+      const ridgeX = -def.width * STUD_SIZE / 2 + flatDepthOf(def) * STUD_SIZE;
+      return toPolyhedron([
+        [[-X, h, -Z], [ridgeX, h, -Z], [ridgeX, h, ridge], [-X, h, ridge]],
+        [[ridgeX, h, -Z], [X, SLOPE_LIP, -Z], [X, SLOPE_LIP, Z], [ridgeX, h, ridge]],
+        [[-X, h, ridge], [ridgeX, h, ridge], [X, SLOPE_LIP, Z], [-X, SLOPE_LIP, Z]],
+        [[-X, 0, -Z], [-X, h, -Z], [ridgeX, h, -Z], [X, SLOPE_LIP, -Z], [X, 0, -Z]],
+        [[-X, 0, -Z], [-X, h, -Z], [-X, h, ridge], [-X, SLOPE_LIP, Z], [-X, 0, Z]],
+        [[X, 0, -Z], [X, SLOPE_LIP, -Z], [X, SLOPE_LIP, Z], [X, 0, Z]],
+        [[-X, 0, Z], [X, 0, Z], [X, SLOPE_LIP, Z], [-X, SLOPE_LIP, Z]],
+        [[-X, 0, -Z], [X, 0, -Z], [X, 0, Z], [-X, 0, Z]],
+      ]);
+    }
+    default:
+      return null;
+  }
+};
+
+// --- Connection points ---
+
+// Unrotated part cells [i, j] (i along width, j along depth from the rear) carrying a stud
+export const getStudCells = (def: BrickTypeDefinition): [number, number][] => {
+  if (!def.hasStuds) return [];
+  const flat = isBoxShape(def) ? Infinity : flatDepthOf(def);
+  const cornerOnly = def.shape?.kind === 'slope-corner';
+  const cells: [number, number][] = [];
+  for (let i = 0; i < def.width; i++) {
+    for (let j = 0; j < def.depth; j++) {
+      if (j >= flat || (cornerOnly && i >= flat)) continue;
+      cells.push([i, j]);
+    }
+  }
+  return cells;
+};
+
+// Unrotated part cells whose underside can sit on a stud
+export const getTubeCells = (def: BrickTypeDefinition): [number, number][] => {
+  if (isRodShape(def)) return [];
+  const flat = def.shape?.kind === 'slope-inverted' ? flatDepthOf(def) : Infinity;
+  const cells: [number, number][] = [];
+  for (let i = 0; i < def.width; i++) {
+    for (let j = 0; j < def.depth && j < flat; j++) {
+      cells.push([i, j]);
+    }
+  }
+  return cells;
+};
+
+// World stud column of a part cell, applying the brick's quarter turns around its center
+export const toWorldColumn = (
+  def: BrickTypeDefinition,
+  position: [number, number, number],
+  rotation: number,
+  [i, j]: [number, number]
+): [number, number] => {
+  const lx = i - (def.width - 1) / 2;
+  const lz = j - (def.depth - 1) / 2;
+  const angle = rotation * Math.PI / 2;
+  const cos = Math.round(Math.cos(angle));
+  const sin = Math.round(Math.sin(angle));
+  return [
+    Math.round(position[0] + lx * cos + lz * sin),
+    Math.round(position[2] - lx * sin + lz * cos),
+  ];
+};
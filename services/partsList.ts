@@ -0,0 +1,145 @@
+import { BRICK_CATALOG, COLORS } from '../constants';
+import { BrickCategory, PlacedBrick } from '../types';
+import { LDRAW_PARTS } from './ldraw';
+import { getColorHex } from './colors';
+
+export interface PartsListRow {
+  key: string; // `${typeId}|${colorKey}`, also the inventory key
+  typeId: string;
+  partName: string;
+  category: BrickCategory | 'unknown';
+  colorId: string | null; // COLORS id, null for ids missing from the palette
+  colorName: string;
+  hex: string;
+  quantity: number;
+}
+
+export interface PartsList {
+  rows: PartsListRow[];
+  totalsByCategory: Partial<Record<BrickCategory | 'unknown', number>>;
+  total: number;
+}
+
+// "My bins": how many of each part/color the user owns, keyed like PartsListRow.key
+export type Inventory = Record<string, number>;
+
+const INVENTORY_STORAGE_KEY = 'kensenichLegoInventory';
+
+export const buildPartsList = (bricks: PlacedBrick[]): PartsList => {
+  const rows = new Map<string, PartsListRow>();
+  const totalsByCategory: PartsList['totalsByCategory'] = {};
+
+  for (const brick of bricks) {
+    const def = BRICK_CATALOG.find(b => b.id === brick.typeId);
+    const color = COLORS.find(c => c.id === brick.colorId);
+    const key = `${brick.typeId}|${brick.colorId}`;
+    const category = def?.category ?? 'unknown';
+
+    const row = rows.get(key);
+    if (row) {
+      row.quantity++;
+    } else {
+      rows.set(key, {
+        key,
+        typeId: brick.typeId,
+        partName: def?.name ?? brick.typeId,
+        category,
+        colorId: color?.id ?? null,
+        colorName: color?.name ?? brick.colorId,
+        hex: getColorHex(brick.colorId),
+        quantity: 1,
+      });
+    }
+    totalsByCategory[category] = (totalsByCategory[category] || 0) + 1;
+  }
+
+  // Catalog order, then palette order, so the list reads like the sidebar
+  const catalogIndex = (typeId: string) => {
+    const i = BRICK_CATALOG.findIndex(b => b.id === typeId);
+    return i === -1 ? BRICK_CATALOG.length : i;
+  };
+  const colorIndex = (colorId: string | null) => {
+    const i = COLORS.findIndex(c => c.id === colorId);
+    return i === -1 ? COLORS.length : i;
+  };
+  const sorted = [...rows.values()].sort((a, b) =>
+    catalogIndex(a.typeId) - catalogIndex(b.typeId) || colorIndex(a.colorId) - colorIndex(b.colorId)
+  );
+
+  return { rows: sorted, totalsByCategory, total: bricks.length };
+};
+
+export const getShortfall = (row: PartsListRow, inventory: Inventory) =>
+  Math.max(0, row.quantity - (inventory[row.key] || 0));
+
+// --- Export ---
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const partsListToCsv = (list: PartsList, inventory: Inventory): string => {
+  const header = ['Part ID', 'Part Name', 'Category', 'Color', 'Quantity', 'In Stock', 'Short'];
+  const lines = list.rows.map(row => [
+    row.typeId,
+    row.partName,
+    row.category,
+    row.colorName,
+    row.quantity,
+    inventory[row.key] || 0,
+    getShortfall(row, inventory),
+  ].map(csvCell).join(','));
+  return [header.join(','), ...lines].join('\n');
+};
+
+const xmlEscape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// BrickLink wanted-list XML. Part numbers follow LDraw; with onlyShort set, the list
+// asks for what the inventory is missing instead of the full build.
+export const partsListToBrickLinkXml = (
+  list: PartsList,
+  inventory: Inventory,
+  onlyShort = false
+): { xml: string; skipped: PartsListRow[] } => {
+  const skipped: PartsListRow[] = [];
+  const items: string[] = [];
+
+  for (const row of list.rows) {
+    const quantity = onlyShort ? getShortfall(row, inventory) : row.quantity;
+    if (quantity === 0) continue;
+    const partNumber = LDRAW_PARTS[row.typeId]?.file.replace(/\.dat$/i, '');
+    const colorNumber = row.colorId ? COLORS.find(c => c.id === row.colorId)?.bricklink : undefined;
+    if (!partNumber || colorNumber === undefined) {
+      skipped.push(row);
+      continue;
+    }
+    items.push([
+      '  <ITEM>',
+      '    <ITEMTYPE>P</ITEMTYPE>',
+      `    <ITEMID>${xmlEscape(partNumber)}</ITEMID>`,
+      `    <COLOR>${colorNumber}</COLOR>`,
+      `    <MINQTY>${quantity}</MINQTY>`,
+      '  </ITEM>',
+    ].join('\n'));
+  }
+
+  return { xml: ['<INVENTORY>', ...items, '</INVENTORY>', ''].join('\n'), skipped };
+};
+
+// --- Inventory persistence ---
+
+export const loadInventory = (): Inventory => {
+  try {
+    const saved = localStorage.getItem(INVENTORY_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveInventory = (inventory: Inventory) => {
+  localStorage.setItem(INVENTORY_STORAGE_KEY, JSON.stringify(inventory));
+};
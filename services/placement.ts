@@ -0,0 +1,70 @@
+import { BRICK_CATALOG, PLATE_HEIGHT, STUD_SIZE } from '../constants';
+import { PlacedBrick } from '../types';
+import { getBrickBounds, getFootprint } from './occupancyGrid';
+import { footprintCenter, getLayerCount, layerToY } from './units';
+
+type Vec3 = [number, number, number];
+
+// What the cursor is over: the hit point and world-space face normal, and the placed
+// part that was hit, if any (the floor otherwise)
+export interface PlacementHit {
+  point: Vec3;
+  normal: Vec3;
+  target: PlacedBrick | null;
+}
+
+// Faces tilted less than this from horizontal count as tops or bottoms; slopes are tops
+const FLAT_FACE = 0.5;
+// Slack for hit points lying exactly on a part's top surface
+const TOP_TOLERANCE = 1e-3;
+
+// First stud column of a footprint spanning `size` columns around the cursor. Even sizes
+// have no middle column, so the footprint extends toward the half of the cell the cursor is in.
+const columnsAround = (coordinate: number, size: number) => {
+  const cell = Math.round(coordinate / STUD_SIZE);
+  const lean = size % 2 === 0 && coordinate / STUD_SIZE < cell ? -1 : 0;
+  return cell - Math.floor((size - 1) / 2) + lean;
+};
+
+// Grid position for a new part under the cursor, worked out in whole stud columns and
+// plate layers from the hit part's own bounds rather than by rounding the hit point:
+// - on the floor or a top face, the part sits on the ground or on the target's top layer,
+//   as it does for any hit at or above that top, such as on the round side of a stud;
+// - on a bottom face, it hangs right under the target;
+// - on a side face, it sits flush against that face, keeping to the target's layers.
+// Returns null when the part would end up below ground.
+export const solvePlacement = (typeId: string, rotation: number, hit: PlacementHit): Vec3 | null => {
+  const def = BRICK_CATALOG.find(b => b.id === typeId);
+  if (!def) return null;
+  const [width, depth] = getFootprint(def, rotation);
+  const layers = getLayerCount(def);
+  const [px, py, pz] = hit.point;
+  const [nx, ny, nz] = hit.normal;
+  const target = hit.target && getBrickBounds(hit.target);
+
+  let minX = columnsAround(px, width);
+  let minZ = columnsAround(pz, depth);
+  let layer: number;
+
+  if (!target) {
+    layer = 0;
+  } else if (ny > FLAT_FACE || py >= layerToY(target.baseLayer + target.layers) - TOP_TOLERANCE) {
+    layer = target.baseLayer + target.layers;
+  } else if (ny < -FLAT_FACE) {
+    layer = target.baseLayer - layers;
+  } else {
+    // The column just outside the face, with the footprint extending away from it
+    if (Math.abs(nx) >= Math.abs(nz)) {
+      minX = nx > 0 ? target.minX + target.width : target.minX - width;
+    } else {
+      minZ = nz > 0 ? target.minZ + target.depth : target.minZ - depth;
+    }
+    // Parts stack from the target's base in steps of their own height, so a brick next
+    // to a brick lines up with it and a plate lands on the layer under the cursor
+    const hitLayer = Math.min(target.baseLayer + target.layers - 1, Math.max(target.baseLayer, Math.floor(py / PLATE_HEIGHT)));
+    layer = target.baseLayer + Math.floor((hitLayer - target.baseLayer) / layers) * layers;
+  }
+
+  if (layer < 0) return null;
+  return [footprintCenter(minX, width), layerToY(layer), footprintCenter(minZ, depth)];
+};
@@ -0,0 +1,175 @@
+import { v4 as uuidv4 } from 'uuid';
+import { renameBuildDocument } from './buildDocument';
+
+// IndexedDB-backed storage for named builds. Summaries (with thumbnails) and the
+// serialized documents live in separate stores so listing projects stays cheap.
+
+const DB_NAME = 'kensenich-lego';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const DOCUMENTS = 'documents';
+const SESSION = 'session';
+const AUTOSAVE_KEY = 'autosave';
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  thumbnail: string | null; // JPEG data URL
+  brickCount: number;
+  created: string; // ISO timestamp
+  modified: string; // ISO timestamp
+}
+
+export interface AutosaveRecord {
+  projectId: string | null;
+  document: string;
+  savedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DOCUMENTS)) db.createObjectStore(DOCUMENTS);
+        if (!db.objectStoreNames.contains(SESSION)) db.createObjectStore(SESSION);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// --- Projects ---
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const projects = await promisify<ProjectSummary[]>(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+  return projects.sort((a, b) => b.modified.localeCompare(a.modified));
+};
+
+export const loadProjectDocument = async (id: string): Promise<string | null> => {
+  const db = await openDb();
+  const document = await promisify<string | undefined>(db.transaction(DOCUMENTS).objectStore(DOCUMENTS).get(id));
+  return document ?? null;
+};
+
+// Creates the project when `id` is null; returns the stored summary
+export const saveProject = async (
+  id: string | null,
+  data: { name: string; document: string; brickCount: number; thumbnail: string | null }
+): Promise<ProjectSummary> => {
+  const db = await openDb();
+  const now = new Date().toISOString();
+  const existing = id
+    ? await promisify<ProjectSummary | undefined>(db.transaction(PROJECTS).objectStore(PROJECTS).get(id))
+    : undefined;
+
+  const summary: ProjectSummary = {
+    id: existing?.id ?? id ?? uuidv4(),
+    name: data.name,
+    thumbnail: data.thumbnail ?? existing?.thumbnail ?? null,
+    brickCount: data.brickCount,
+    created: existing?.created ?? now,
+    modified: now,
+  };
+
+  const tx = db.transaction([PROJECTS, DOCUMENTS], 'readwrite');
+  tx.objectStore(PROJECTS).put(summary);
+  tx.objectStore(DOCUMENTS).put(data.document, summary.id);
+  await transactionDone(tx);
+  return summary;
+};
+
+// Renames both the summary and the stored document, so the name survives reopening
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, DOCUMENTS], 'readwrite');
+  const done = transactionDone(tx);
+  const summary = await promisify<ProjectSummary | undefined>(tx.objectStore(PROJECTS).get(id));
+  const document = await promisify<string | undefined>(tx.objectStore(DOCUMENTS).get(id));
+  // Worked out before any write, so a document that cannot be read leaves both untouched
+  const renamed = document === undefined ? undefined : renameBuildDocument(document, name);
+  if (summary) tx.objectStore(PROJECTS).put({ ...summary, name, modified: new Date().toISOString() });
+  if (renamed !== undefined) tx.objectStore(DOCUMENTS).put(renamed, id);
+  await done;
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectSummary | null> => {
+  const db = await openDb();
+  const summary = await promisify<ProjectSummary | undefined>(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+  const document = await loadProjectDocument(id);
+  if (!summary || document === null) return null;
+  return saveProject(null, {
+    name: `${summary.name} (copy)`,
+    document,
+    brickCount: summary.brickCount,
+    thumbnail: summary.thumbnail,
+  });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, DOCUMENTS], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(DOCUMENTS).delete(id);
+  await transactionDone(tx);
+};
+
+// --- Autosave / crash recovery ---
+
+export const writeAutosave = async (record: AutosaveRecord): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(SESSION, 'readwrite');
+  tx.objectStore(SESSION).put(record, AUTOSAVE_KEY);
+  await transactionDone(tx);
+};
+
+export const readAutosave = async (): Promise<AutosaveRecord | null> => {
+  const db = await openDb();
+  const record = await promisify<AutosaveRecord | undefined>(db.transaction(SESSION).objectStore(SESSION).get(AUTOSAVE_KEY));
+  return record ?? null;
+};
+
+// --- Thumbnails ---
+
+// Downscales the WebGL canvas into a small JPEG. The canvas must be created with
+// preserveDrawingBuffer so its last frame can still be read here.
+export const captureThumbnail = (canvas: HTMLCanvasElement | null, width = 240, height = 160): string | null => {
+  if (!canvas || canvas.width === 0 || canvas.height === 0) return null;
+  const thumb = document.createElement('canvas');
+  thumb.width = width;
+  thumb.height = height;
+  const ctx = thumb.getContext('2d');
+  if (!ctx) return null;
+
+  // Center-crop to the thumbnail aspect ratio
+  const scale = Math.max(width / canvas.width, height / canvas.height);
+  const sw = width / scale;
+  const sh = height / scale;
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(canvas, (canvas.width - sw) / 2, (canvas.height - sh) / 2, sw, sh, 0, 0, width, height);
+  return thumb.toDataURL('image/jpeg', 0.8);
+};
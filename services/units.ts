@@ -0,0 +1,38 @@
+import { STUD_SIZE, PLATE_HEIGHT } from '../constants';
+import { BrickTypeDefinition } from '../types';
+
+// Unit convention shared by the editor, physics, file formats and the AI service:
+// - World units: one stud pitch (STUD_SIZE) along X and Z, Y up, ground at Y = 0.
+// - Heights are counted in whole plates ("layers") of PLATE_HEIGHT world units; a brick is
+//   PLATES_PER_BRICK plates. Part definitions give height in bricks (plate 0.33, brick 1),
+//   which is only ever turned into layers here, so 0.33 plates never drift off the grid.
+// - A placed part's position is the bottom center of its rotated footprint: y is a layer
+//   times PLATE_HEIGHT, x and z are whole studs for odd footprint sizes and halves for even ones.
+
+export const PLATES_PER_BRICK = 3;
+
+// Plates are 0.33 of a brick, so a brick spans 3 layers and a plate 1
+export const getLayerCount = (def: BrickTypeDefinition) => Math.max(1, Math.round(def.height * PLATES_PER_BRICK));
+
+// World height of a part, a whole number of layers
+export const getPartHeight = (def: BrickTypeDefinition) => getLayerCount(def) * PLATE_HEIGHT;
+
+export const toLayer = (y: number) => Math.round(y / PLATE_HEIGHT);
+
+// World Y of a layer, without floating point artifacts
+export const layerToY = (layer: number) => parseFloat((layer * PLATE_HEIGHT).toFixed(2));
+
+// Footprint center along one axis from its first stud column, and back
+export const footprintCenter = (minColumn: number, size: number) => (minColumn + (size - 1) / 2) * STUD_SIZE;
+export const footprintMin = (center: number, size: number) => Math.round(center / STUD_SIZE - (size - 1) / 2);
+
+// Nearest valid position for a part of the given rotated footprint, e.g. for coordinates
+// from an import or the AI service
+export const snapPosition = (
+  [x, y, z]: [number, number, number],
+  [width, depth]: [number, number]
+): [number, number, number] => [
+  footprintCenter(footprintMin(x, width), width),
+  layerToY(Math.max(0, toLayer(y))),
+  footprintCenter(footprintMin(z, depth), depth),
+];
@@ -0,0 +1,253 @@
+import { PLATE_HEIGHT, STUD_SIZE } from '../constants';
+import { PlacedBrick } from '../types';
+import { LayerGrid, getPackingParts, packVolume } from './brickPacking';
+import { findNearestColor } from './colors';
+import { resolveColor } from './buildRepair';
+
+// Models to builds: MagicaVoxel .vox files are resampled and OBJ meshes voxelized onto the
+// brick grid (one cell per stud and plate), colors mapped to the palette, and the cells
+// packed into bricks and plates with packVolume.
+
+// The file is not a model we can read; a model that reads but comes out empty is not an error
+export class VoxelImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VoxelImportError';
+  }
+}
+
+// Voxels on the file's own grid, Y up; each voxel is a cube one unit across
+export interface VoxelModel {
+  size: [number, number, number];
+  voxels: { position: [number, number, number]; colorId: string }[];
+}
+
+// Triangles with a palette color each, Y up, in the file's units
+export interface MeshModel {
+  vertices: [number, number, number][];
+  triangles: { indices: [number, number, number]; colorId: string }[];
+}
+
+// Filled cells bottom up, one LayerGrid per plate layer
+export interface CellVolume {
+  layers: LayerGrid[];
+  width: number; // Columns (X)
+  depth: number; // Rows (Z)
+}
+
+export const MAX_MODEL_STUDS = 64;
+
+// Cell counts for a scaled extent; the tolerance keeps exact fits from gaining a cell
+const cellsFor = (extent: number, cellSize: number) => Math.max(1, Math.ceil(extent / cellSize - 1e-6));
+
+// --- MagicaVoxel ---
+
+const hex = (r: number, g: number, b: number) => `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`;
+
+// Palette a .vox file uses when it has no RGBA chunk: a 6x6x6 color cube, then ramps of
+// red, green, blue and grey. Index 0 is unused.
+const DEFAULT_VOX_PALETTE = (() => {
+  const steps = [0xff, 0xcc, 0x99, 0x66, 0x33, 0x00];
+  const ramp = [0xee, 0xdd, 0xbb, 0xaa, 0x88, 0x77, 0x55, 0x44, 0x22, 0x11];
+  const palette = ['#000000'];
+  steps.forEach(r => steps.forEach(g => steps.forEach(b => palette.push(hex(r, g, b)))));
+  palette.pop(); // Black is left for the grey ramp
+  ramp.forEach(v => palette.push(hex(v, 0, 0)));
+  ramp.forEach(v => palette.push(hex(0, v, 0)));
+  ramp.forEach(v => palette.push(hex(0, 0, v)));
+  ramp.forEach(v => palette.push(hex(v, v, v)));
+  return palette;
+})();
+
+// Reads the first model of a .vox file. MagicaVoxel is Z up; the result is Y up, with the
+// file's Y turned into -Z so the model is not mirrored.
+export const parseVox = (buffer: ArrayBuffer): VoxelModel => {
+  const view = new DataView(buffer);
+  const tag = (offset: number) => String.fromCharCode(...new Uint8Array(buffer, offset, 4));
+  if (buffer.byteLength < 20 || tag(0) !== 'VOX ') throw new VoxelImportError('Not a MagicaVoxel (.vox) file.');
+
+  let size: [number, number, number] | null = null;
+  let raw: { x: number; y: number; z: number; index: number }[] | null = null;
+  let palette = DEFAULT_VOX_PALETTE;
+
+  // Chunks follow the MAIN chunk header: id, content size, children size, content. Sizes
+  // are unsigned and every chunk has a 12-byte header, so each step moves forward.
+  let offset = 20;
+  while (offset + 12 <= buffer.byteLength) {
+    const id = tag(offset);
+    const contentSize = view.getUint32(offset + 4, true);
+    const content = offset + 12;
+    if (content + contentSize > buffer.byteLength) throw new VoxelImportError('The .vox file is cut short.');
+    const broken = () => new VoxelImportError(`The .vox file has a broken ${id} chunk.`);
+    if (id === 'SIZE' && !size) {
+      if (contentSize < 12) throw broken();
+      size = [view.getUint32(content, true), view.getUint32(content + 4, true), view.getUint32(content + 8, true)];
+      // Voxel positions are single bytes, so no model is bigger than 256 across
+      if (size.some(n => n < 1 || n > 256)) throw broken();
+    } else if (id === 'XYZI' && !raw) {
+      if (contentSize < 4) throw broken();
+      const count = view.getUint32(content, true);
+      if (4 + count * 4 > contentSize) throw broken();
+      raw = Array.from({ length: count }, (_, i) => {
+        const at = content + 4 + i * 4;
+        return { x: view.getUint8(at), y: view.getUint8(at + 1), z: view.getUint8(at + 2), index: view.getUint8(at + 3) };
+      });
+    } else if (id === 'RGBA') {
+      if (contentSize < 1024) throw broken();
+      // Entry i holds color index i + 1
+      palette = ['#000000', ...Array.from({ length: 255 }, (_, i) =>
+        hex(view.getUint8(content + i * 4), view.getUint8(content + i * 4 + 1), view.getUint8(content + i * 4 + 2)))];
+    }
+    offset = content + contentSize; // Children of MAIN are read as the following chunks
+  }
+  if (!size || !raw) throw new VoxelImportError('The .vox file has no model in it.');
+
+  const colorIds = new Map<number, string>();
+  const colorOf = (index: number) => {
+    if (!colorIds.has(index)) colorIds.set(index, findNearestColor(palette[index] ?? '#a0a5a9').id);
+    return colorIds.get(index)!;
+  };
+  const [sizeX, sizeY, sizeZ] = size;
+  return {
+    size: [sizeX, sizeZ, sizeY],
+    voxels: raw.map(v => ({ position: [v.x, v.z, sizeY - 1 - v.y] as [number, number, number], colorId: colorOf(v.index) })),
+  };
+};
+
+// Samples the voxel grid at each cell center, scaled so the wider side spans `studsAcross`
+export const resampleVoxels = (model: VoxelModel, studsAcross: number): CellVolume => {
+  const [sizeX, sizeY, sizeZ] = model.size;
+  const scale = Math.min(MAX_MODEL_STUDS, studsAcross) * STUD_SIZE / Math.max(sizeX, sizeZ, 1);
+  const lookup = new Map(model.voxels.map(v => [v.position.join(','), v.colorId]));
+  const width = cellsFor(sizeX * scale, STUD_SIZE);
+  const depth = cellsFor(sizeZ * scale, STUD_SIZE);
+  const layerCount = cellsFor(sizeY * scale, PLATE_HEIGHT);
+
+  const layers = Array.from({ length: layerCount }, (_, l) => {
+    const vy = Math.floor((l + 0.5) * PLATE_HEIGHT / scale);
+    return Array.from({ length: depth }, (_, r) => {
+      const vz = Math.floor((r + 0.5) * STUD_SIZE / scale);
+      return Array.from({ length: width }, (_, c) =>
+        lookup.get(`${Math.floor((c + 0.5) * STUD_SIZE / scale)},${vy},${vz}`) ?? null);
+    });
+  });
+  return { layers, width, depth };
+};
+
+// --- OBJ ---
+
+// Reads vertices, faces (polygons are split into fans) and colors: per-vertex colors
+// ("v x y z r g b") when present, else a material whose name is a palette color, else
+// the default color
+export const parseObj = (text: string, defaultColorId: string): MeshModel => {
+  const vertices: [number, number, number][] = [];
+  const vertexColors: (string | null)[] = [];
+  const triangles: MeshModel['triangles'] = [];
+  let materialColor: string | null = null;
+
+  text.split(/\r?\n/).forEach(line => {
+    const [keyword, ...args] = line.trim().split(/\s+/);
+    if (keyword === 'v') {
+      const values = args.map(Number);
+      if (values.length < 3 || values.slice(0, 3).some(v => !Number.isFinite(v))) return;
+      vertices.push([values[0], values[1], values[2]]);
+      const [r, g, b] = values.slice(3, 6).map(v => Math.round(Math.max(0, Math.min(1, v)) * 255));
+      vertexColors.push(values.length >= 6 && [r, g, b].every(Number.isFinite) ? findNearestColor(hex(r, g, b)).id : null);
+    } else if (keyword === 'usemtl') {
+      const name = args.join(' ');
+      materialColor = (resolveColor(name) ?? resolveColor(name.replace(/[_-]+/g, ' ')))?.id ?? null;
+    } else if (keyword === 'f') {
+      // "f 1/2/3 ..." uses the vertex index before the first slash; negatives count from the end
+      const indices = args.map(arg => {
+        const index = parseInt(arg.split('/')[0], 10);
+        return index < 0 ? vertices.length + index : index - 1;
+      });
+      if (indices.some(i => !(i >= 0 && i < vertices.length))) return;
+      for (let i = 1; i + 1 < indices.length; i++) {
+        const corners: [number, number, number] = [indices[0], indices[i], indices[i + 1]];
+        const colorId = corners.map(k => vertexColors[k]).find(Boolean) ?? materialColor ?? defaultColorId;
+        triangles.push({ indices: corners, colorId });
+      }
+    }
+  });
+  if (triangles.length === 0) throw new VoxelImportError('The OBJ file has no faces.');
+  return { vertices, triangles };
+};
+
+// Rays run slightly off the column centers, so they miss the shared edges of triangles
+// in grid-aligned meshes instead of crossing the surface twice there
+const RAY_OFFSET: [number, number] = [1.3e-4, 0.7e-4];
+
+// Fills the inside of a closed mesh, scaled so its wider side spans `studsAcross`. A ray
+// goes up through each stud column; the stretches between entering and leaving the mesh
+// are solid. Cells take the color of the nearer of the two surfaces.
+export const voxelizeMesh = (mesh: MeshModel, studsAcross: number): CellVolume => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  mesh.vertices.forEach(v => v.forEach((value, k) => {
+    min[k] = Math.min(min[k], value);
+    max[k] = Math.max(max[k], value);
+  }));
+  const scale = Math.min(MAX_MODEL_STUDS, studsAcross) * STUD_SIZE / Math.max(max[0] - min[0], max[2] - min[2], 1e-6);
+  const points = mesh.vertices.map(v => [(v[0] - min[0]) * scale, (v[1] - min[1]) * scale, (v[2] - min[2]) * scale]);
+  const width = cellsFor((max[0] - min[0]) * scale, STUD_SIZE);
+  const depth = cellsFor((max[2] - min[2]) * scale, STUD_SIZE);
+  const layerCount = cellsFor((max[1] - min[1]) * scale, PLATE_HEIGHT);
+
+  // Where each column's ray crosses the surface
+  const hits: { y: number; colorId: string }[][] = Array.from({ length: width * depth }, () => []);
+  mesh.triangles.forEach(({ indices, colorId }) => {
+    const [a, b, c] = indices.map(i => points[i]);
+    const area = (b[0] - a[0]) * (c[2] - a[2]) - (c[0] - a[0]) * (b[2] - a[2]);
+    if (Math.abs(area) < 1e-12) return; // Edge-on to the ray
+    const firstColumn = Math.max(0, Math.floor(Math.min(a[0], b[0], c[0]) / STUD_SIZE - 0.5));
+    const lastColumn = Math.min(width - 1, Math.ceil(Math.max(a[0], b[0], c[0]) / STUD_SIZE - 0.5));
+    const firstRow = Math.max(0, Math.floor(Math.min(a[2], b[2], c[2]) / STUD_SIZE - 0.5));
+    const lastRow = Math.min(depth - 1, Math.ceil(Math.max(a[2], b[2], c[2]) / STUD_SIZE - 0.5));
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        const x = (column + 0.5) * STUD_SIZE + RAY_OFFSET[0];
+        const z = (row + 0.5) * STUD_SIZE + RAY_OFFSET[1];
+        // Barycentric weights of the column center in the triangle's footprint
+        const u = ((b[0] - x) * (c[2] - z) - (c[0] - x) * (b[2] - z)) / area;
+        const v = ((c[0] - x) * (a[2] - z) - (a[0] - x) * (c[2] - z)) / area;
+        const w = 1 - u - v;
+        if (u < 0 || v < 0 || w < 0) continue;
+        hits[row * width + column].push({ y: u * a[1] + v * b[1] + w * c[1], colorId });
+      }
+    }
+  });
+
+  const layers: LayerGrid[] = Array.from({ length: layerCount }, () =>
+    Array.from({ length: depth }, () => Array<string | null>(width).fill(null)));
+  hits.forEach((columnHits, index) => {
+    const row = Math.floor(index / width);
+    const column = index % width;
+    columnHits.sort((p, q) => p.y - q.y);
+    // An odd hit left over is an open edge of the mesh; it is ignored
+    for (let i = 0; i + 1 < columnHits.length; i += 2) {
+      const enter = columnHits[i];
+      const leave = columnHits[i + 1];
+      let first = Math.ceil(enter.y / PLATE_HEIGHT - 0.5);
+      let last = Math.floor(leave.y / PLATE_HEIGHT - 0.5);
+      // Thinner than a plate: keep the layer it is in rather than losing it
+      if (first > last) first = last = Math.min(layerCount - 1, Math.floor((enter.y + leave.y) / 2 / PLATE_HEIGHT));
+      for (let l = Math.max(0, first); l <= Math.min(layerCount - 1, last); l++) {
+        const y = (l + 0.5) * PLATE_HEIGHT;
+        layers[l][row][column] = y - enter.y <= leave.y - y ? enter.colorId : leave.colorId;
+      }
+    }
+  });
+  return { layers, width, depth };
+};
+
+// --- Packing ---
+
+// Bricks and plates for the filled cells, centered on the origin and standing on the
+// ground. Empty layers at the bottom are dropped so the model rests on the floor.
+export const buildFromVolume = (volume: CellVolume): PlacedBrick[] => {
+  const firstFilled = volume.layers.findIndex(grid => grid.some(row => row.some(Boolean)));
+  if (firstFilled < 0) return [];
+  const origin: [number, number] = [-Math.floor(volume.width / 2), -Math.floor(volume.depth / 2)];
+  return packVolume(volume.layers.slice(firstFilled), 0, origin, [...getPackingParts('basic'), ...getPackingParts('plate')]);
+};
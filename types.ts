@@ -1,4 +1,22 @@
-export type BrickCategory = 'basic' | 'plate' | 'technic' | 'slope';
+export type BrickCategory = 'basic' | 'plate' | 'tile' | 'technic' | 'slope';
+
+// Body shape of a part; parts without one are plain boxes.
+// Slopes descend toward +Z (front); `flatDepth` is the number of stud rows on the flat rear.
+// Pins, axles, bushes and gears are Technic parts lying along X.
+export interface BrickShape {
+  kind: 'box' | 'slope' | 'slope-inverted' | 'slope-corner' | 'pin' | 'axle' | 'bush' | 'gear';
+  flatDepth?: number;
+  teeth?: number; // Gears only
+}
+
+// Studs fit anti-studs; pins fit pin holes; axles fit axle holes and turn freely in pin holes
+export type ConnectionPointKind = 'stud' | 'anti-stud' | 'pin' | 'axle' | 'pin-hole' | 'axle-hole';
+
+export interface ConnectionPoint {
+  kind: ConnectionPointKind;
+  position: [number, number, number]; // Part-local, bottom-center origin, world units
+  direction: [number, number, number]; // Axis; for pins and axles it points out of the part
+}
 
 export interface BrickTypeDefinition {
   id: string;
@@ -9,6 +27,10 @@ export interface BrickTypeDefinition {
   height: number; // relative to standard brick (1 = standard, 0.33 = plate)
   hasStuds: boolean;
   hasHoles?: boolean; // Technic style holes
+  shape?: BrickShape;
+  // Technic holes and inserts; studs and anti-studs are derived from the footprint
+  connections?: ConnectionPoint[];
+  motorRpm?: number; // Motors only: default speed of the output hole
 }
 
 export interface PlacedBrick {
@@ -16,13 +38,47 @@ export interface PlacedBrick {
   typeId: string;
   position: [number, number, number]; // x, y, z in grid units
   rotation: number; // 0, 1, 2, 3 (multipliers of 90 deg around Y axis)
-  color: string;
+  colorId: string; // Palette id (see COLORS)
+  rpm?: number; // Motors only: overrides the part's default speed, sign sets direction
+}
+
+export interface BuildMetadata {
+  name: string;
+  author: string;
+  created: string; // ISO timestamp
+  modified: string; // ISO timestamp
+  catalogVersion: number;
+  packs?: PackReference[]; // Part packs beyond the built-in catalog that the build uses
 }
 
+// Identifies an installed part library (see services/partLibrary.ts)
+export interface PackReference {
+  id: string;
+  name: string;
+  version: number;
+}
+
+// On-disk save format; `version` is the document schema version
+export interface BuildDocument {
+  format: 'kensenich-lego-build';
+  version: number;
+  metadata: BuildMetadata;
+  bricks: PlacedBrick[];
+}
+
+// Surface finish of a color; each maps to its own material settings when rendered
+export type ColorFinish = 'solid' | 'trans' | 'metallic' | 'pearl' | 'chrome' | 'glow';
+
+// Palette entry named after the official LEGO color list, with the matching
+// LDraw and BrickLink color codes for export
 export interface BrickColor {
   id: string;
   name: string;
   hex: string;
+  finish?: ColorFinish; // Solid when omitted
+  legoId?: number;
+  ldraw?: number;
+  bricklink?: number;
 }
 
-export type ToolMode = 'view' | 'place' | 'delete' | 'paint' | 'rotate';
+export type ToolMode = 'view' | 'place' | 'connect' | 'select' | 'delete' | 'paint' | 'rotate';